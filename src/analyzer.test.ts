@@ -4,9 +4,13 @@ import {
   getABCSummary,
   getVENSummary,
   getABCVENMatrix,
+  sumMatrixCells,
   getVENDistributionByABC,
+  getATCSummary,
+  reconcileTotals,
+  parseThresholds,
 } from './analyzer';
-import { DrugItem, AnalyzedItem } from './types';
+import { DrugItem, AnalyzedItem, ABCBoundaryStrategy } from './types';
 
 describe('analyzeABC', () => {
   const createItem = (code: number, amount: number, ven: 'V' | 'E' | 'N' = 'V'): DrugItem => ({
@@ -260,6 +264,60 @@ describe('analyzeABC', () => {
       expect(result[2].abc).toBe('C'); // 95% before
     });
   });
+
+  describe('options', () => {
+    // Cumulative: 70 -> 85 -> 93 -> 97 -> 100
+    const items: DrugItem[] = [
+      createItem(1, 70),
+      createItem(2, 15),
+      createItem(3, 8),
+      createItem(4, 4),
+      createItem(5, 3),
+    ];
+
+    it('should use 80/95 and the "before" strategy by default', () => {
+      const result = analyzeABC(items);
+
+      expect(result.map((item) => item.abc)).toEqual(['A', 'A', 'B', 'B', 'C']);
+    });
+
+    it('should apply custom thresholds', () => {
+      const result = analyzeABC(items, { thresholds: { a: 70, b: 90 } });
+
+      expect(result.map((item) => item.abc)).toEqual(['A', 'B', 'B', 'C', 'C']);
+    });
+
+    it('should move the crossing item to the next group with "after" strategy', () => {
+      const result = analyzeABC(items, { strategy: 'after' });
+
+      expect(result.map((item) => item.abc)).toEqual(['A', 'B', 'B', 'C', 'C']);
+    });
+
+    it('should keep an item ending exactly on the boundary with "after" strategy', () => {
+      const result = analyzeABC([createItem(1, 80), createItem(2, 15), createItem(3, 5)], { strategy: 'after' });
+
+      expect(result.map((item) => item.abc)).toEqual(['A', 'B', 'C']);
+    });
+
+    it('should assign the crossing item to the nearest boundary with "nearest" strategy', () => {
+      // Item 2 spans 70..85 (midpoint 77.5 < 80) -> A
+      // Item 3 spans 85..93 (midpoint 89 < 95) -> B
+      // Item 4 spans 93..97 (midpoint 95 >= 95) -> C
+      const result = analyzeABC(items, { strategy: 'nearest' });
+
+      expect(result.map((item) => item.abc)).toEqual(['A', 'A', 'B', 'C', 'C']);
+    });
+
+    it('should reject thresholds that are out of order or out of range', () => {
+      expect(() => analyzeABC(items, { thresholds: { a: 95, b: 80 } })).toThrow();
+      expect(() => analyzeABC(items, { thresholds: { a: 0, b: 80 } })).toThrow();
+      expect(() => analyzeABC(items, { thresholds: { a: 80, b: 100 } })).toThrow();
+    });
+
+    it('should reject unknown strategies', () => {
+      expect(() => analyzeABC(items, { strategy: 'middle' as ABCBoundaryStrategy })).toThrow();
+    });
+  });
 });
 
 describe('getABCSummary', () => {
@@ -690,3 +748,121 @@ describe('getVENDistributionByABC', () => {
     expect(result.C.N.count).toBe(1);
   });
 });
+
+describe('reconcileTotals', () => {
+  const items: DrugItem[] = [
+    { code: 1, name: 'Препарат 1', unit: 'уп.', quantity: 10, amount: 1000.1, ven: 'V' },
+    { code: 2, name: 'Препарат 2', unit: 'уп.', quantity: 5, amount: 499.9, ven: 'E' },
+  ];
+
+  it('should match when sums equal declared totals', () => {
+    const result = reconcileTotals(items, { line: 10, quantity: 15, amount: 1500 });
+
+    expect(result.matches).toBe(true);
+    expect(result.line).toBe(10);
+    expect(result.checks.map((check) => check.field)).toEqual(['quantity', 'amount']);
+    expect(result.checks[1].difference).toBeCloseTo(0, 6);
+  });
+
+  it('should flag differences beyond the tolerance', () => {
+    const result = reconcileTotals(items, { line: 10, amount: 2000 });
+
+    expect(result.matches).toBe(false);
+    expect(result.checks.length).toBe(1);
+    expect(result.checks[0].parsed).toBeCloseTo(1500, 6);
+    expect(result.checks[0].difference).toBeCloseTo(-500, 6);
+    expect(result.checks[0].withinTolerance).toBe(false);
+  });
+
+  it('should accept differences within a custom tolerance', () => {
+    const result = reconcileTotals(items, { line: 10, amount: 1500.5 }, 1);
+
+    expect(result.matches).toBe(true);
+    expect(result.tolerance).toBe(1);
+  });
+});
+
+describe('parseThresholds', () => {
+  it('should accept comma and slash separators', () => {
+    expect(parseThresholds('75,95')).toEqual({ a: 75, b: 95 });
+    expect(parseThresholds('70 / 90')).toEqual({ a: 70, b: 90 });
+  });
+
+  it('should reject malformed values', () => {
+    expect(() => parseThresholds('80')).toThrow('Некорректное значение --thresholds: 80');
+    expect(() => parseThresholds('a,b')).toThrow();
+  });
+});
+
+describe('getATCSummary', () => {
+  const createAnalyzedItem = (code: number, amount: number, abc: 'A' | 'B' | 'C', ven: 'V' | 'E' | 'N', atc?: string): AnalyzedItem => ({
+    code,
+    name: `Препарат ${code}`,
+    unit: 'уп.',
+    quantity: 1,
+    amount,
+    ven,
+    abc,
+    percentOfTotal: 0,
+    cumulativePercent: 0,
+    ...(atc ? { atc } : {}),
+  });
+
+  const items: AnalyzedItem[] = [
+    createAnalyzedItem(1, 500, 'A', 'V', 'J01DD04'),
+    createAnalyzedItem(2, 300, 'B', 'E', 'J01CR02'),
+    createAnalyzedItem(3, 150, 'C', 'N', 'N02BE01'),
+    createAnalyzedItem(4, 50, 'C', 'E'),
+  ];
+
+  it('should sum spend by group and sort groups by spend with uncoded items last', () => {
+    const result = getATCSummary(items, 1);
+
+    expect(result.map((group) => [group.atc, group.count, group.amount, group.percentAmount])).toEqual([
+      ['J', 2, 800, 80],
+      ['N', 1, 150, 15],
+      ['', 1, 50, 5],
+    ]);
+  });
+
+  it('should split each group by ABC and VEN within the group', () => {
+    const [j01] = getATCSummary(items, 2);
+
+    expect(j01.atc).toBe('J01');
+    expect(j01.abc.A).toEqual({ count: 1, amount: 500, percentCount: 50, percentAmount: 62.5 });
+    expect(j01.abc.C.count).toBe(0);
+    expect(j01.ven.E.percentAmount).toBe(37.5);
+  });
+
+  it('should separate groups at level 3', () => {
+    expect(getATCSummary(items, 3).map((group) => group.atc)).toEqual(['J01D', 'J01C', 'N02B', '']);
+  });
+});
+
+describe('sumMatrixCells', () => {
+  const item = (code: number, amount: number, abc: 'A' | 'B' | 'C', ven: 'V' | 'E' | 'N'): AnalyzedItem => ({
+    code,
+    name: `Препарат ${code}`,
+    unit: 'уп.',
+    quantity: 1,
+    amount,
+    ven,
+    abc,
+    percentOfTotal: 0,
+    cumulativePercent: 0,
+  });
+  const matrix = getABCVENMatrix([item(1, 50000, 'A', 'V'), item(2, 30000, 'A', 'N'), item(3, 15000, 'B', 'V'), item(4, 5000, 'C', 'E')]);
+
+  it('should return a single cell when both categories are given', () => {
+    expect(sumMatrixCells(matrix, 'A', 'N')).toEqual(matrix.A.N);
+  });
+
+  it('should sum a row or a column when one category is omitted', () => {
+    expect(sumMatrixCells(matrix, 'A')).toEqual({ count: 2, amount: 80000, percentCount: 50, percentAmount: 80 });
+    expect(sumMatrixCells(matrix, undefined, 'V')).toEqual({ count: 2, amount: 65000, percentCount: 50, percentAmount: 65 });
+  });
+
+  it('should give the grand total when no category is given', () => {
+    expect(sumMatrixCells(matrix)).toEqual({ count: 4, amount: 100000, percentCount: 100, percentAmount: 100 });
+  });
+});
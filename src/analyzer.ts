@@ -1,14 +1,69 @@
+import { atcPrefix } from './atc';
 import {
   DrugItem,
   AnalyzedItem,
+  ATCGroupSummary,
+  ATCLevel,
+  CategoryStats,
   ABCCategory,
+  ABCBoundaryStrategy,
+  ABCOptions,
   ABCSummary,
+  ABCThresholds,
   ABCVENMatrix,
+  DeclaredTotals,
+  TotalsCheck,
+  TotalsReconciliation,
   VENCategory,
   VENSummary,
 } from './types';
 
-export function analyzeABC(items: DrugItem[]): AnalyzedItem[] {
+export const DEFAULT_ABC_OPTIONS: ABCOptions = {
+  thresholds: { a: 80, b: 95 },
+  strategy: 'before',
+};
+
+export const ABC_STRATEGIES: ABCBoundaryStrategy[] = ['before', 'after', 'nearest'];
+
+export function resolveABCOptions(options: Partial<ABCOptions> = {}): ABCOptions {
+  const resolved: ABCOptions = {
+    thresholds: { ...DEFAULT_ABC_OPTIONS.thresholds, ...options.thresholds },
+    strategy: options.strategy ?? DEFAULT_ABC_OPTIONS.strategy,
+  };
+
+  const { a, b } = resolved.thresholds;
+  if (!(a > 0 && a < b && b < 100)) {
+    throw new Error(`Некорректные границы ABC: ${a}/${b} (требуется 0 < A < B < 100)`);
+  }
+  if (!ABC_STRATEGIES.includes(resolved.strategy)) {
+    throw new Error(`Неизвестное правило отнесения: ${resolved.strategy}`);
+  }
+
+  return resolved;
+}
+
+/** Parses command-line thresholds written as "75,95" or "75/95" */
+export function parseThresholds(value: string): ABCThresholds {
+  const parts = value.split(/[,/]/).map((part) => parseFloat(part.trim()));
+  if (parts.length !== 2 || parts.some((part) => isNaN(part))) {
+    throw new Error(`Некорректное значение --thresholds: ${value} (ожидается, например, 75,95)`);
+  }
+  return { a: parts[0], b: parts[1] };
+}
+
+function getCategory(percent: number, thresholds: ABCThresholds, inclusive: boolean): ABCCategory {
+  if (inclusive ? percent <= thresholds.a : percent < thresholds.a) {
+    return 'A';
+  }
+  if (inclusive ? percent <= thresholds.b : percent < thresholds.b) {
+    return 'B';
+  }
+  return 'C';
+}
+
+export function analyzeABC<T extends DrugItem>(items: T[], options: Partial<ABCOptions> = {}): (T & AnalyzedItem)[] {
+  const { thresholds, strategy } = resolveABCOptions(options);
+
   // Sort by amount descending
   const sorted = [...items].sort((a, b) => b.amount - a.amount);
 
@@ -16,25 +71,25 @@ export function analyzeABC(items: DrugItem[]): AnalyzedItem[] {
   const totalAmount = sorted.reduce((sum, item) => sum + item.amount, 0);
 
   // Calculate percentages and assign ABC categories
-  // Category is assigned based on cumulative percent BEFORE adding current item
-  // This ensures the first items go into group A until we cross 80%
+  // By default category is assigned based on cumulative percent BEFORE adding current item
+  // This ensures the first items go into group A until we cross the A threshold
   let cumulativePercent = 0;
 
   return sorted.map((item) => {
     const percentOfTotal = (item.amount / totalAmount) * 100;
+    const previousPercent = cumulativePercent;
+
+    cumulativePercent += percentOfTotal;
 
-    // Assign category based on cumulative percent BEFORE this item
     let abc: ABCCategory;
-    if (cumulativePercent < 80) {
-      abc = 'A';
-    } else if (cumulativePercent < 95) {
-      abc = 'B';
+    if (strategy === 'after') {
+      abc = getCategory(cumulativePercent, thresholds, true);
+    } else if (strategy === 'nearest') {
+      abc = getCategory(previousPercent + percentOfTotal / 2, thresholds, false);
     } else {
-      abc = 'C';
+      abc = getCategory(previousPercent, thresholds, false);
     }
 
-    cumulativePercent += percentOfTotal;
-
     return {
       ...item,
       percentOfTotal,
@@ -44,6 +99,44 @@ export function analyzeABC(items: DrugItem[]): AnalyzedItem[] {
   });
 }
 
+// Default allowed difference between declared and parsed totals (rubles / units)
+export const DEFAULT_TOTALS_TOLERANCE = 0.01;
+
+/**
+ * Compares the declared footer totals with the sums of parsed items,
+ * so that truncated or mis-converted files are caught.
+ */
+export function reconcileTotals(
+  items: DrugItem[],
+  declared: DeclaredTotals,
+  tolerance = DEFAULT_TOTALS_TOLERANCE
+): TotalsReconciliation {
+  const checks: TotalsCheck[] = [];
+
+  for (const field of ['quantity', 'amount'] as const) {
+    const declaredValue = declared[field];
+    if (declaredValue === undefined) {
+      continue;
+    }
+    const parsed = items.reduce((sum, item) => sum + item[field], 0);
+    const difference = parsed - declaredValue;
+    checks.push({
+      field,
+      declared: declaredValue,
+      parsed,
+      difference,
+      withinTolerance: Math.abs(difference) <= tolerance,
+    });
+  }
+
+  return {
+    line: declared.line,
+    tolerance,
+    checks,
+    matches: checks.every((check) => check.withinTolerance),
+  };
+}
+
 export function getABCSummary(analyzedItems: AnalyzedItem[]): ABCSummary[] {
   const totalAmount = analyzedItems.reduce((sum, item) => sum + item.amount, 0);
   const totalCount = analyzedItems.length;
@@ -128,6 +221,27 @@ export function getABCVENMatrix(analyzedItems: AnalyzedItem[]): ABCVENMatrix {
   return matrix;
 }
 
+/**
+ * Sums the cells of an ABC/VEN matrix: one cell when both categories are
+ * given, a row or column total when one is omitted, the grand total when
+ * both are.
+ */
+export function sumMatrixCells(matrix: ABCVENMatrix, abc?: ABCCategory, ven?: VENCategory): CategoryStats {
+  const total: CategoryStats = { count: 0, amount: 0, percentCount: 0, percentAmount: 0 };
+
+  for (const rowCategory of abc ? [abc] : (['A', 'B', 'C'] as ABCCategory[])) {
+    for (const columnCategory of ven ? [ven] : (['V', 'E', 'N'] as VENCategory[])) {
+      const cell = matrix[rowCategory][columnCategory];
+      total.count += cell.count;
+      total.amount += cell.amount;
+      total.percentCount += cell.percentCount;
+      total.percentAmount += cell.percentAmount;
+    }
+  }
+
+  return total;
+}
+
 export function getVENDistributionByABC(
   analyzedItems: AnalyzedItem[]
 ): Record<ABCCategory, Record<VENCategory, { count: number; amount: number; percentCount: number; percentAmount: number }>> {
@@ -161,3 +275,46 @@ export function getVENDistributionByABC(
 
   return result;
 }
+
+/**
+ * Spend and ABC/VEN distribution by ATC group of the given level, largest
+ * spend first. Items without an ATC code (or with a code shorter than the
+ * level) are summed in a group with an empty code, listed last.
+ */
+export function getATCSummary(analyzedItems: AnalyzedItem[], level: ATCLevel): ATCGroupSummary[] {
+  const totalAmount = analyzedItems.reduce((sum, item) => sum + item.amount, 0);
+  const emptyStats = (): CategoryStats => ({ count: 0, amount: 0, percentCount: 0, percentAmount: 0 });
+  const groups = new Map<string, ATCGroupSummary>();
+
+  for (const item of analyzedItems) {
+    const atc = item.atc ? atcPrefix(item.atc, level) : '';
+    let group = groups.get(atc);
+    if (!group) {
+      group = {
+        atc,
+        count: 0,
+        amount: 0,
+        percentAmount: 0,
+        abc: { A: emptyStats(), B: emptyStats(), C: emptyStats() },
+        ven: { V: emptyStats(), E: emptyStats(), N: emptyStats() },
+      };
+      groups.set(atc, group);
+    }
+    group.count++;
+    group.amount += item.amount;
+    for (const stats of [group.abc[item.abc], group.ven[item.ven]]) {
+      stats.count++;
+      stats.amount += item.amount;
+    }
+  }
+
+  for (const group of groups.values()) {
+    group.percentAmount = totalAmount > 0 ? (group.amount / totalAmount) * 100 : 0;
+    for (const stats of [...Object.values(group.abc), ...Object.values(group.ven)]) {
+      stats.percentCount = (stats.count / group.count) * 100;
+      stats.percentAmount = group.amount > 0 ? (stats.amount / group.amount) * 100 : 0;
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => Number(a.atc === '') - Number(b.atc === '') || b.amount - a.amount);
+}
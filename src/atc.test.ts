@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { assignATC, atcPrefix, isATCCode, loadATCMapping } from './atc';
+import { DrugItem } from './types';
+
+const item = (code: number, name: string, atc?: string): DrugItem => ({
+  code,
+  name,
+  unit: 'уп.',
+  quantity: 1,
+  amount: 100,
+  ven: 'V',
+  ...(atc ? { atc } : {}),
+});
+
+describe('isATCCode', () => {
+  it('should accept codes of levels 1 to 5', () => {
+    expect(['J', 'J01', 'J01C', 'J01CR', 'J01CR02'].every(isATCCode)).toBe(true);
+  });
+
+  it('should reject malformed codes and unknown main groups', () => {
+    expect(['', 'J1', 'J01C0', 'J01CR2', 'E01', 'j01'].some(isATCCode)).toBe(false);
+  });
+});
+
+describe('atcPrefix', () => {
+  it('should cut the code to the level', () => {
+    expect([1, 2, 3].map((level) => atcPrefix('J01CR02', level as 1 | 2 | 3))).toEqual(['J', 'J01', 'J01C']);
+  });
+
+  it('should return an empty group for codes shorter than the level', () => {
+    expect(atcPrefix('J01', 3)).toBe('');
+  });
+});
+
+describe('loadATCMapping', () => {
+  const testDir = path.join(__dirname, '../test-data-atc');
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  const createFile = (filename: string, content: string): string => {
+    const filePath = path.join(testDir, filename);
+    fs.writeFileSync(filePath, content, 'utf-8');
+    return filePath;
+  };
+
+  it('should read codes and names with their ATC codes', () => {
+    const filePath = createFile(
+      'atc.csv',
+      ['Код;Наименование;Код АТХ', '8;"Азитромицин капс. 250мг.№6";j01fa10', ';Адреналин амп.;C01CA24', '', '15;;N02BE'].join('\n')
+    );
+
+    expect(loadATCMapping(filePath)).toEqual([
+      { code: 8, name: 'Азитромицин капс. 250мг.№6', atc: 'J01FA10' },
+      { name: 'Адреналин амп.', atc: 'C01CA24' },
+      { code: 15, atc: 'N02BE' },
+    ]);
+  });
+
+  it('should report invalid codes with their line', () => {
+    const filePath = createFile('atc.csv', 'Наименование;ATC\nПрепарат А;J01\nПрепарат Б;J1\n');
+
+    expect(() => loadATCMapping(filePath)).toThrow('Файл кодов ATC, строка 3: недопустимый код ATC "J1"');
+  });
+
+  it('should require an ATC column', () => {
+    const filePath = createFile('atc.csv', 'Наименование;VEN\nПрепарат А;V\n');
+
+    expect(() => loadATCMapping(filePath)).toThrow('Файл кодов ATC: не найдена колонка');
+  });
+});
+
+describe('assignATC', () => {
+  it('should set codes from the mapping and keep codes read from the file', () => {
+    const items = [item(1, 'Азитромицин капс.'), item(2, 'Адреналин амп.', 'C01CA24'), item(3, 'Препарат В')];
+
+    const result = assignATC(items, [
+      { name: 'азитромицин  капс.', atc: 'J01FA10' },
+      { name: 'Адреналин амп.', atc: 'C01CA' },
+    ]);
+
+    expect(result.map((entry) => entry.atc)).toEqual(['J01FA10', 'C01CA24', undefined]);
+    expect(result[2]).toBe(items[2]);
+  });
+});
@@ -0,0 +1,95 @@
+import { createDictionaryLookup, readDictionaryTable } from './dictionaryFile';
+import { ATCLevel, ATCMappingEntry, DrugItem } from './types';
+
+export const ATC_LEVELS: ATCLevel[] = [1, 2, 3];
+
+// Code length at each level: J, J01, J01C
+const ATC_PREFIX_LENGTHS: Record<ATCLevel, number> = { 1: 1, 2: 3, 3: 4 };
+
+/** Anatomical main groups (ATC level 1) */
+export const ATC_ANATOMICAL_GROUPS: Record<string, string> = {
+  A: 'Пищеварительный тракт и обмен веществ',
+  B: 'Кровь и система кроветворения',
+  C: 'Сердечно-сосудистая система',
+  D: 'Дерматология',
+  G: 'Мочеполовая система и половые гормоны',
+  H: 'Гормоны для системного применения (кроме половых гормонов и инсулинов)',
+  J: 'Противомикробные препараты для системного применения',
+  L: 'Противоопухолевые препараты и иммуномодуляторы',
+  M: 'Костно-мышечная система',
+  N: 'Нервная система',
+  P: 'Противопаразитарные препараты, инсектициды и репелленты',
+  R: 'Дыхательная система',
+  S: 'Органы чувств',
+  V: 'Прочие препараты',
+};
+
+/** A code of level 1 to 5: J, J01, J01C, J01CR, J01CR02 */
+export function isATCCode(value: string): boolean {
+  return /^[ABCDGHJLMNPRSV](\d{2}([A-Z]([A-Z](\d{2})?)?)?)?$/.test(value);
+}
+
+/** The code's group at the level, or '' when the code is shorter than that */
+export function atcPrefix(atc: string, level: ATCLevel): string {
+  const length = ATC_PREFIX_LENGTHS[level];
+  return atc.length >= length ? atc.slice(0, length) : '';
+}
+
+/**
+ * Loads the local ATC mapping from CSV or a workbook's first sheet: an
+ * "ATC"/"АТХ" column and a code or name column, as in the VEN dictionary.
+ */
+export function loadATCMapping(filePath: string): ATCMappingEntry[] {
+  const { rows, headerRow, fieldColumn } = readDictionaryTable(filePath, 'atc', 'Файл кодов ATC');
+  const atcCol = fieldColumn('atc');
+  const codeCol = fieldColumn('code');
+  const nameCol = fieldColumn('name');
+  if (codeCol === -1 && nameCol === -1) {
+    throw new Error(`Файл кодов ATC: нет колонки кода или наименования: ${filePath}`);
+  }
+
+  const entries: ATCMappingEntry[] = [];
+  for (let i = headerRow + 1; i < rows.length; i++) {
+    const cell = (col: number): string => (col === -1 ? '' : (rows[i][col] ?? '').trim());
+    const codeText = cell(codeCol);
+    const name = cell(nameCol);
+    const atc = cell(atcCol).toUpperCase().replace(/\s+/g, '');
+    if (!codeText && !name && !atc) {
+      continue;
+    }
+
+    const context = `Файл кодов ATC, строка ${i + 1}`;
+    if (!isATCCode(atc)) {
+      throw new Error(`${context}: недопустимый код ATC "${cell(atcCol)}"`);
+    }
+    if (codeText && !/^\d+$/.test(codeText)) {
+      throw new Error(`${context}: нечисловой код "${codeText}"`);
+    }
+    if (!codeText && !name) {
+      throw new Error(`${context}: не указаны код и наименование`);
+    }
+
+    const entry: ATCMappingEntry = { atc };
+    if (codeText) {
+      entry.code = parseInt(codeText, 10);
+    }
+    if (name) {
+      entry.name = name;
+    }
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Sets the ATC code of items found in the mapping. Codes already present
+ * (read from the source table) are kept.
+ */
+export function assignATC<T extends DrugItem>(items: T[], mapping: ATCMappingEntry[]): T[] {
+  const lookup = createDictionaryLookup(mapping);
+  return items.map((item) => {
+    const entry = item.atc ? undefined : lookup(item.code, item.name);
+    return entry ? { ...item, atc: entry.atc } : item;
+  });
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { detectColumns, findHeaderRow, findMissingColumns, matchesField, normalizeHeader } from './columns';
+
+describe('normalizeHeader', () => {
+  it('should lower-case, trim and collapse whitespace', () => {
+    expect(normalizeHeader('  Сумма,   руб. ')).toBe('сумма, руб.');
+  });
+
+  it('should replace ё with е', () => {
+    expect(normalizeHeader('Ёмкость')).toBe('емкость');
+  });
+});
+
+describe('matchesField', () => {
+  it('should match synonyms', () => {
+    expect(matchesField('Ед.', 'unit')).toBe(true);
+    expect(matchesField('Единица', 'unit')).toBe(true);
+    expect(matchesField('Кол-во', 'quantity')).toBe(true);
+    expect(matchesField('Количество', 'quantity')).toBe(true);
+    expect(matchesField('Сумма, руб.', 'amount')).toBe(true);
+    expect(matchesField('VEN', 'ven')).toBe(true);
+  });
+
+  it('should not match words that only start with a synonym', () => {
+    expect(matchesField('Суммарно', 'amount')).toBe(false);
+    expect(matchesField('Единичный', 'unit')).toBe(false);
+  });
+
+  it('should not match unrelated headers', () => {
+    expect(matchesField('Операции расхода', 'quantity')).toBe(false);
+    expect(matchesField('', 'name')).toBe(false);
+  });
+});
+
+describe('findHeaderRow', () => {
+  it('should find the row with quantity and amount headers', () => {
+    const rows = [
+      ['ОПН 2025 г.', '', '', '', '', ''],
+      ['Товар - название', '', 'Ед.', 'Операции расхода', '', ''],
+      ['', '', '', 'Кол-во', 'Сумма', ''],
+      ['1', 'Препарат', 'уп.', '10', '1000', 'V'],
+    ];
+
+    expect(findHeaderRow(rows)).toBe(2);
+  });
+
+  it('should return -1 when there is no header', () => {
+    expect(findHeaderRow([['1', 'Препарат', 'уп.', '10', '1000', 'V']])).toBe(-1);
+  });
+});
+
+describe('detectColumns', () => {
+  it('should map the standard two-row header', () => {
+    const rows = [
+      ['Товар - название', '', 'Ед.', 'Операции расхода', '', ''],
+      ['', '', '', 'Кол-во', 'Сумма', ''],
+      ['1', 'Препарат А', 'уп.', '10', '1000', 'V'],
+      ['2', 'Препарат Б', 'уп.', '5', '500', 'E'],
+    ];
+
+    const layout = detectColumns(rows);
+
+    expect(layout).toEqual({
+      headerRow: 1,
+      dataStartRow: 2,
+      mapping: { code: 0, name: 1, unit: 2, quantity: 3, amount: 4, ven: 5 },
+    });
+  });
+
+  it('should leave unit unmapped when the table has no unit column', () => {
+    const rows = [
+      ['Товар - название', '', 'Операции расхода', '', ''],
+      ['', '', 'Кол-во', 'Сумма', ''],
+      ['1', 'Препарат А', '10', '1000', 'V'],
+    ];
+
+    const layout = detectColumns(rows);
+
+    expect(layout?.mapping).toEqual({ code: 0, name: 1, quantity: 2, amount: 3, ven: 4 });
+  });
+
+  it('should skip an extra empty column', () => {
+    const rows = [
+      ['Товар - название', '', '', 'Ед.', 'Операции расхода', '', ''],
+      ['', '', '', '', 'Кол-во', 'Сумма', ''],
+      ['1', 'Препарат А', '', 'уп.', '2', '125.6', 'V'],
+    ];
+
+    const layout = detectColumns(rows);
+
+    expect(layout?.mapping).toEqual({ code: 0, name: 1, unit: 3, quantity: 4, amount: 5, ven: 6 });
+  });
+
+  it('should map a single-row header with synonyms in any order', () => {
+    const rows = [
+      ['VEN', 'Наименование', 'Код', 'Количество', 'Единица', 'Сумма, руб.'],
+      ['V', 'Препарат А', '1', '10', 'фл.', '1000'],
+    ];
+
+    const layout = detectColumns(rows);
+
+    expect(layout?.mapping).toEqual({ code: 2, name: 1, unit: 4, quantity: 3, amount: 5, ven: 0 });
+  });
+
+  it('should let explicit columns override detected ones', () => {
+    const rows = [
+      ['Код', 'Товар', 'Ед.', 'Кол-во', 'Сумма', 'VEN', 'VEN (ред.)'],
+      ['1', 'Препарат А', 'уп.', '10', '1000', 'V', 'E'],
+    ];
+
+    const layout = detectColumns(rows, { columns: { ven: 6 } });
+
+    expect(layout?.mapping.ven).toBe(6);
+    expect(layout?.mapping.amount).toBe(4);
+  });
+
+  it('should fall back to a complete explicit mapping when there is no header', () => {
+    const rows = [
+      ['Отчёт'],
+      ['1', 'Препарат А', '10', '1000', 'V'],
+    ];
+
+    const layout = detectColumns(rows, {
+      columns: { code: 0, name: 1, quantity: 2, amount: 3, ven: 4 },
+      dataStartRow: 1,
+    });
+
+    expect(layout).toEqual({
+      headerRow: -1,
+      dataStartRow: 1,
+      mapping: { code: 0, name: 1, quantity: 2, amount: 3, ven: 4 },
+    });
+  });
+
+  it('should recognize the VEN column by extra values', () => {
+    const rows = [
+      ['Код', 'Товар', 'Кол-во', 'Сумма', 'Категория'],
+      ['1', 'Препарат А', '10', '1000', 'Ж'],
+      ['2', 'Препарат Б', '5', '500', 'ж'],
+    ];
+
+    expect(detectColumns(rows)).toBeNull();
+    expect(detectColumns(rows, { venValues: ['Ж'] })?.mapping.ven).toBe(4);
+  });
+
+  it('should return null when there is no header and no explicit mapping', () => {
+    expect(detectColumns([['1', 'Препарат А', 'уп.', '10', '1000', 'V']])).toBeNull();
+  });
+
+  it('should return null when required columns cannot be found', () => {
+    const rows = [
+      ['Товар', 'Кол-во', 'Сумма'],
+      ['Препарат А', '10', '1000'],
+    ];
+
+    expect(detectColumns(rows)).toBeNull();
+  });
+});
+
+describe('findMissingColumns', () => {
+  const rows = [
+    ['Код', 'Товар', 'Кол-во', 'Сумма'],
+    ['1', 'Препарат А', '10', '1000'],
+  ];
+
+  it('should name the required columns that were not found', () => {
+    expect(findMissingColumns(rows)).toEqual(['ven']);
+    expect(findMissingColumns([['Отчёт']])).toEqual(['code', 'name', 'quantity', 'amount', 'ven']);
+  });
+
+  it('should be empty when the table is recognized', () => {
+    expect(findMissingColumns(rows, { venOptional: true })).toEqual([]);
+  });
+});
@@ -0,0 +1,202 @@
+import { ColumnField, ColumnMapping } from './types';
+
+/**
+ * Header texts recognized for each field, in normalized form
+ * (lower case, "ё" as "е", single spaces). A header cell matches a synonym
+ * exactly or when it continues with punctuation, e.g. "Сумма, руб.".
+ */
+export const COLUMN_SYNONYMS: Record<ColumnField, string[]> = {
+  code: ['код', 'код товара', 'код лс'],
+  name: ['товар', 'товар - название', 'наименование', 'название', 'препарат'],
+  unit: ['ед.', 'ед', 'ед. изм.', 'ед.изм.', 'единица', 'единица измерения'],
+  quantity: ['кол-во', 'количество', 'кол.'],
+  amount: ['сумма', 'стоимость', 'затраты'],
+  ven: ['ven', 'вен', 'ven-категория', 'категория ven'],
+  atc: ['atc', 'атх', 'код atc', 'код атх'],
+};
+
+/** How each field is named in messages, after the usual report headers */
+export const COLUMN_LABELS: Record<ColumnField, string> = {
+  code: 'Код',
+  name: 'Товар',
+  unit: 'Ед.',
+  quantity: 'Кол-во',
+  amount: 'Сумма',
+  ven: 'VEN',
+  atc: 'ATC',
+};
+
+// How many rows from the top of a table are searched for the header
+const HEADER_SEARCH_ROWS = 20;
+
+// Header cells may be spread over this many rows above the "Кол-во"/"Сумма" row
+const HEADER_DEPTH = 3;
+
+// How many rows below the header are sampled to check and infer columns
+const SAMPLE_ROWS = 50;
+
+export interface ColumnDetectionOptions {
+  /** Explicit column indexes; take precedence over detected ones */
+  columns?: Partial<ColumnMapping>;
+  /** First data row (0-based) when the table has no recognizable header */
+  dataStartRow?: number;
+  /** Cell values besides V/E/N that identify the VEN column, e.g. ["Ж"] */
+  venValues?: string[];
+  /** Accept tables without a VEN column (categories come from a dictionary) */
+  venOptional?: boolean;
+}
+
+export interface ColumnLayout {
+  /** Row holding the "Кол-во"/"Сумма" headers, -1 for an explicit mapping */
+  headerRow: number;
+  dataStartRow: number;
+  mapping: ColumnMapping;
+}
+
+export function normalizeHeader(cell: string): string {
+  return cell.trim().toLowerCase().replace(/ё/g, 'е').replace(/\s+/g, ' ');
+}
+
+export function matchesField(cell: string, field: ColumnField): boolean {
+  const header = normalizeHeader(cell);
+  return COLUMN_SYNONYMS[field].some(
+    (synonym) => header === synonym || (header.startsWith(synonym) && /^[\s,.:;(/-]/.test(header.slice(synonym.length)))
+  );
+}
+
+export function findHeaderRow(rows: string[][]): number {
+  const limit = Math.min(rows.length, HEADER_SEARCH_ROWS);
+  for (let i = 0; i < limit; i++) {
+    const hasQuantity = rows[i].some((cell) => matchesField(cell, 'quantity'));
+    const hasAmount = rows[i].some((cell) => matchesField(cell, 'amount'));
+    if (hasQuantity && hasAmount) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+const BASE_FIELD_CHECKS: Record<ColumnField, (cell: string) => boolean> = {
+  code: (cell) => /^\d+$/.test(cell),
+  name: (cell) => !isNumeric(cell),
+  unit: (cell) => !isNumeric(cell),
+  quantity: (cell) => isNumeric(cell),
+  amount: (cell) => isNumeric(cell),
+  ven: (cell) => /^[VEN]$/i.test(cell),
+  // Single-letter level 1 codes are not accepted here: they look like VEN categories
+  atc: (cell) => /^[A-Z]\d{2}([A-Z]{1,2}(\d{2})?)?$/i.test(cell),
+};
+
+/**
+ * Finds the header row and maps columns to DrugItem fields by header text.
+ * A header match is kept only if the data below agrees with the field type,
+ * because merged headers often sit above the wrong column (e.g.
+ * "Товар - название" spans the code and name columns). Code, name and VEN
+ * columns without a usable header are inferred from the data.
+ *
+ * Returns null when neither detection nor the explicit mapping yields
+ * all required columns.
+ */
+export function detectColumns(rows: string[][], options: ColumnDetectionOptions = {}): ColumnLayout | null {
+  const { headerRow, mapping } = mapColumns(rows, options);
+  if (!isComplete(mapping, options.venOptional)) {
+    return null;
+  }
+  // Without a header (headerRow -1) data starts at the top
+  return { headerRow, dataStartRow: options.dataStartRow ?? headerRow + 1, mapping };
+}
+
+/**
+ * The required fields that detectColumns could not map, in the order of
+ * the report columns; empty when the table is recognized.
+ */
+export function findMissingColumns(rows: string[][], options: ColumnDetectionOptions = {}): ColumnField[] {
+  return missingFields(mapColumns(rows, options).mapping, options.venOptional);
+}
+
+function mapColumns(
+  rows: string[][],
+  options: ColumnDetectionOptions
+): { headerRow: number; mapping: Partial<ColumnMapping> } {
+  const explicit = options.columns ?? {};
+  const venValues = (options.venValues ?? []).map((value) => value.trim().toUpperCase());
+  const checks: Record<ColumnField, (cell: string) => boolean> = {
+    ...BASE_FIELD_CHECKS,
+    ven: (cell) => BASE_FIELD_CHECKS.ven(cell) || venValues.includes(cell.toUpperCase()),
+  };
+  const headerRow = findHeaderRow(rows);
+
+  if (headerRow === -1) {
+    return { headerRow, mapping: explicit };
+  }
+
+  const headerRows = rows.slice(Math.max(0, headerRow - HEADER_DEPTH + 1), headerRow + 1);
+  const sample = rows.slice(headerRow + 1, headerRow + 1 + SAMPLE_ROWS);
+  const width = Math.max(0, ...rows.slice(headerRow, headerRow + 1 + SAMPLE_ROWS).map((row) => row.length));
+
+  const values = (col: number): string[] =>
+    sample.map((row) => (row[col] ?? '').trim()).filter((cell) => cell !== '');
+  const share = (col: number, field: ColumnField): number => {
+    const cells = values(col);
+    return cells.length > 0 ? cells.filter(checks[field]).length / cells.length : 0;
+  };
+
+  const found: Partial<ColumnMapping> = {};
+  const taken = new Set<number>(
+    Object.values(explicit).filter((col): col is number => col !== undefined)
+  );
+
+  const assign = (field: ColumnField, col: number): void => {
+    found[field] = col;
+    taken.add(col);
+  };
+
+  // ATC goes before code, whose "код" synonym also matches "Код АТХ"
+  const fields: ColumnField[] = ['quantity', 'amount', 'unit', 'ven', 'atc', 'code', 'name'];
+
+  for (const field of fields) {
+    if (explicit[field] !== undefined) {
+      continue;
+    }
+    for (let col = 0; col < width; col++) {
+      if (taken.has(col) || !headerRows.some((row) => matchesField(row[col] ?? '', field))) {
+        continue;
+      }
+      // Empty columns keep their header match; filled ones must look like the field
+      if (values(col).length === 0 || share(col, field) > 0.5) {
+        assign(field, col);
+        break;
+      }
+    }
+  }
+
+  for (const field of ['ven', 'code', 'name'] as ColumnField[]) {
+    if (explicit[field] !== undefined || found[field] !== undefined) {
+      continue;
+    }
+    for (let col = 0; col < width; col++) {
+      if (!taken.has(col) && share(col, field) > 0.5) {
+        assign(field, col);
+        break;
+      }
+    }
+  }
+
+  return { headerRow, mapping: { ...found, ...explicit } };
+}
+
+function missingFields(mapping: Partial<ColumnMapping>, venOptional = false): ColumnField[] {
+  const required: ColumnField[] = ['code', 'name', 'quantity', 'amount'];
+  if (!venOptional) {
+    required.push('ven');
+  }
+  return required.filter((field) => mapping[field] === undefined);
+}
+
+function isComplete(mapping: Partial<ColumnMapping>, venOptional = false): mapping is ColumnMapping {
+  return missingFields(mapping, venOptional).length === 0;
+}
+
+function isNumeric(cell: string): boolean {
+  return cell.trim() !== '' && !isNaN(Number(cell.replace(',', '.')));
+}
@@ -0,0 +1,122 @@
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { ABC_STRATEGIES, analyzeABC, parseThresholds, resolveABCOptions } from './analyzer';
+import { comparePeriods } from './comparison';
+import { DEFAULT_MERGE_KEY, MERGE_KEYS, findCodeConflicts } from './merge';
+import { parseFileWithDiagnostics } from './parser';
+import {
+  ComparisonLabels,
+  describeABCOptions,
+  formatCodeConflicts,
+  formatComparison,
+  generateComparisonReport,
+  generateComparisonTextReport,
+} from './reporter';
+import { ABCBoundaryStrategy, ABCOptions, AnalyzedItem, MergeKey } from './types';
+
+function printUsage(): void {
+  console.log('Использование: npx tsx src/compare.ts <файл_периода_1> <файл_периода_2> [параметры]');
+  console.log('');
+  console.log('Параметры:');
+  console.log('  --thresholds <A,B>   границы групп A и B в % (по умолчанию 80,95)');
+  console.log(`  --strategy <правило> отнесение позиции на границе: ${ABC_STRATEGIES.join(', ')} (по умолчанию before)`);
+  console.log(`  --match-key <ключ>   сопоставление позиций: ${MERGE_KEYS.join(', ')} (по умолчанию ${DEFAULT_MERGE_KEY})`);
+  console.log('  --limit <число>      длина списков крупнейших изменений (по умолчанию 10)');
+  console.log('  --name <имя>         имя выходных файлов (по умолчанию <период_1>_vs_<период_2>)');
+  console.log('');
+  console.log('Пример:');
+  console.log('  npm run compare -- assets/ОПН_2024.csv assets/ОПН.csv');
+}
+
+function loadPeriod(inputPath: string, abcOptions: ABCOptions): AnalyzedItem[] {
+  console.log(`Входной файл: ${inputPath}`);
+  const { items, diagnostics } = parseFileWithDiagnostics(inputPath);
+
+  const errors = diagnostics.filter((d) => d.severity === 'error').length;
+  console.log(`  Загружено позиций: ${items.length}, отклонено строк: ${errors}`);
+  if (items.length === 0) {
+    throw new Error(`не удалось загрузить данные из файла ${inputPath}`);
+  }
+
+  return analyzeABC(items, abcOptions);
+}
+
+function main(): number {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      thresholds: { type: 'string' },
+      strategy: { type: 'string' },
+      'match-key': { type: 'string' },
+      limit: { type: 'string' },
+      name: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    printUsage();
+    return 0;
+  }
+
+  if (positionals.length !== 2) {
+    console.error('Ошибка: укажите два входных файла\n');
+    printUsage();
+    return 1;
+  }
+
+  const abcOptions = resolveABCOptions({
+    thresholds: values.thresholds ? parseThresholds(values.thresholds) : undefined,
+    strategy: values.strategy as ABCBoundaryStrategy | undefined,
+  });
+  const matchKey = (values['match-key'] ?? DEFAULT_MERGE_KEY) as MergeKey;
+  if (!MERGE_KEYS.includes(matchKey)) {
+    throw new Error(`Некорректное значение --match-key: ${values['match-key']}`);
+  }
+  const limit = values.limit !== undefined ? parseInt(values.limit, 10) : 10;
+  if (isNaN(limit) || limit < 0) {
+    throw new Error(`Некорректное значение --limit: ${values.limit}`);
+  }
+
+  const [beforePath, afterPath] = positionals.map((input) => path.resolve(input));
+  const labels: ComparisonLabels = {
+    before: path.basename(beforePath, path.extname(beforePath)),
+    after: path.basename(afterPath, path.extname(afterPath)),
+  };
+
+  console.log(describeABCOptions(abcOptions));
+  const before = loadPeriod(beforePath, abcOptions);
+  const after = loadPeriod(afterPath, abcOptions);
+  if (matchKey === 'code') {
+    const conflicts = findCodeConflicts([
+      { department: labels.before, items: before },
+      { department: labels.after, items: after },
+    ]);
+    if (conflicts.length > 0) {
+      console.log(`\n${formatCodeConflicts(conflicts, limit)}`);
+    }
+  }
+
+  const comparison = comparePeriods(before, after, matchKey);
+
+  const outputDir = path.resolve(__dirname, '../output');
+  const outputName = values.name ?? `${labels.before}_vs_${labels.after}`;
+  const csvOutputPath = path.join(outputDir, `${outputName}_comparison.csv`);
+  const textOutputPath = path.join(outputDir, `${outputName}_comparison.txt`);
+
+  generateComparisonReport(comparison, csvOutputPath);
+  generateComparisonTextReport(comparison, labels, textOutputPath, limit);
+
+  console.log('');
+  console.log(formatComparison(comparison, labels, limit));
+  console.log(`\nCSV-отчёт сохранён: ${csvOutputPath}`);
+  console.log(`Текстовый отчёт сохранён: ${textOutputPath}`);
+  return 0;
+}
+
+try {
+  process.exit(main());
+} catch (error) {
+  console.error(`Ошибка: ${(error as Error).message}`);
+  process.exit(1);
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { MATRIX_CELLS, comparePeriods, getBiggestMovers, matrixCell } from './comparison';
+import { AnalyzedItem } from './types';
+
+const item = (code: number, name: string, amount: number, abc: AnalyzedItem['abc'], ven: AnalyzedItem['ven'] = 'V'): AnalyzedItem => ({
+  code,
+  name,
+  unit: 'уп.',
+  quantity: 1,
+  amount,
+  ven,
+  percentOfTotal: 0,
+  cumulativePercent: 0,
+  abc,
+});
+
+describe('matrixCell', () => {
+  it('should combine ABC and VEN categories', () => {
+    expect(matrixCell(item(1, 'А', 10, 'B', 'N'))).toBe('BN');
+    expect(MATRIX_CELLS).toEqual(['AV', 'AE', 'AN', 'BV', 'BE', 'BN', 'CV', 'CE', 'CN']);
+  });
+});
+
+describe('comparePeriods', () => {
+  const before = [item(1, 'Препарат А', 1000, 'A'), item(2, 'Препарат Б', 300, 'B', 'E'), item(3, 'Препарат В', 50, 'C')];
+  const after = [item(1, 'Препарат А', 400, 'B'), item(2, 'Препарат Б', 350, 'B', 'E'), item(4, 'Препарат Г', 800, 'A', 'N')];
+
+  it('should classify continued, new and discontinued items', () => {
+    const result = comparePeriods(before, after);
+
+    expect(result.changes.map((change) => [change.code, change.status, change.amountDelta])).toEqual([
+      [4, 'new', 800],
+      [1, 'continued', -600],
+      [2, 'continued', 50],
+      [3, 'discontinued', -50],
+    ]);
+    expect(result.totalBefore).toBe(1350);
+    expect(result.totalAfter).toBe(1550);
+  });
+
+  it('should count continued items in the migration matrix', () => {
+    const { migration } = comparePeriods(before, after);
+
+    expect(migration.AV.BV).toBe(1);
+    expect(migration.BE.BE).toBe(1);
+    const total = MATRIX_CELLS.reduce((sum, from) => sum + MATRIX_CELLS.reduce((s, to) => s + migration[from][to], 0), 0);
+    expect(total).toBe(2);
+  });
+
+  it('should match by name by default', () => {
+    const result = comparePeriods([item(7, 'Препарат А', 100, 'A')], [item(1, 'препарат  а', 100, 'A')]);
+
+    expect(result.changes).toHaveLength(1);
+    expect(result.changes[0].status).toBe('continued');
+    expect(result.changes[0].code).toBe(1);
+  });
+
+  it('should pair items by line position with the code key', () => {
+    const result = comparePeriods([item(2, 'Аевит', 100, 'A')], [item(2, 'Азатиоприн', 900, 'A')], 'code');
+
+    expect(result.changes.map((change) => [change.name, change.status])).toEqual([['Азатиоприн', 'continued']]);
+  });
+});
+
+describe('getBiggestMovers', () => {
+  it('should list only items that changed their cell', () => {
+    const result = comparePeriods(
+      [item(1, 'А', 1000, 'A'), item(2, 'Б', 100, 'C'), item(3, 'В', 10, 'C')],
+      [item(1, 'А', 100, 'A'), item(2, 'Б', 900, 'A'), item(3, 'В', 20, 'B')]
+    );
+
+    expect(getBiggestMovers(result).map((change) => change.code)).toEqual([2, 3]);
+    expect(getBiggestMovers(result, 1).map((change) => change.code)).toEqual([2]);
+  });
+});
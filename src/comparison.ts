@@ -0,0 +1,87 @@
+import { DEFAULT_MERGE_KEY, itemKey } from './merge';
+import { ABCCategory, AnalyzedItem, ItemChange, MatrixCell, MergeKey, PeriodComparison, VENCategory } from './types';
+
+export const MATRIX_CELLS: MatrixCell[] = (['A', 'B', 'C'] as ABCCategory[]).flatMap((abc) =>
+  (['V', 'E', 'N'] as VENCategory[]).map((ven): MatrixCell => `${abc}${ven}`)
+);
+
+export function matrixCell(item: AnalyzedItem): MatrixCell {
+  return `${item.abc}${item.ven}`;
+}
+
+function emptyMigration(): Record<MatrixCell, Record<MatrixCell, number>> {
+  const migration = {} as Record<MatrixCell, Record<MatrixCell, number>>;
+  for (const from of MATRIX_CELLS) {
+    migration[from] = {} as Record<MatrixCell, number>;
+    for (const to of MATRIX_CELLS) {
+      migration[from][to] = 0;
+    }
+  }
+  return migration;
+}
+
+/**
+ * Matches the analyzed items of two periods by key and records each drug's
+ * spend change. Drugs present in both periods are counted in the migration
+ * matrix; the others are new or discontinued.
+ *
+ * Changes are ordered by the largest absolute spend change first.
+ */
+export function comparePeriods(
+  before: AnalyzedItem[],
+  after: AnalyzedItem[],
+  key: MergeKey = DEFAULT_MERGE_KEY
+): PeriodComparison {
+  const remaining = new Map<string, AnalyzedItem>();
+  for (const item of after) {
+    remaining.set(itemKey(item, key), item);
+  }
+
+  const changes: ItemChange[] = [];
+  const migration = emptyMigration();
+
+  for (const previous of before) {
+    const id = itemKey(previous, key);
+    const current = remaining.get(id);
+    if (current) {
+      remaining.delete(id);
+      migration[matrixCell(previous)][matrixCell(current)]++;
+      changes.push({
+        code: current.code,
+        name: current.name,
+        status: 'continued',
+        before: previous,
+        after: current,
+        amountDelta: current.amount - previous.amount,
+      });
+    } else {
+      changes.push({
+        code: previous.code,
+        name: previous.name,
+        status: 'discontinued',
+        before: previous,
+        amountDelta: -previous.amount,
+      });
+    }
+  }
+
+  for (const current of remaining.values()) {
+    changes.push({ code: current.code, name: current.name, status: 'new', after: current, amountDelta: current.amount });
+  }
+
+  changes.sort((a, b) => Math.abs(b.amountDelta) - Math.abs(a.amountDelta));
+
+  return {
+    changes,
+    migration,
+    totalBefore: before.reduce((sum, item) => sum + item.amount, 0),
+    totalAfter: after.reduce((sum, item) => sum + item.amount, 0),
+  };
+}
+
+/** Continued drugs that changed their ABC/VEN cell, by largest spend change */
+export function getBiggestMovers(comparison: PeriodComparison, limit = 10): ItemChange[] {
+  return comparison.changes
+    .filter((change) => change.before && change.after && matrixCell(change.before) !== matrixCell(change.after))
+    .slice(0, limit);
+}
@@ -1,32 +1,23 @@
-import * as XLSX from 'xlsx';
 import * as fs from 'fs';
 import * as path from 'path';
-
-interface ConversionConfig {
-  inputFile: string;
-  outputFile: string;
-  skipRows: number;  // rows to skip at the beginning
-  hasUnitColumn: boolean;
-  extraColumn?: number;  // column index to remove (0-based)
+import { parseArgs } from 'util';
+import { ParseOptions, parseWorkbookWithDiagnostics } from './parser';
+import { ConversionProfile, expandProfileInputs, findProfile, loadConversionProfiles } from './profiles';
+
+// Columns are located by header text (see columns.ts), so workbooks without
+// the "Ед." column (гастро) or with an extra empty column (приемное) need no special options.
+// Per-department settings live in the profiles file instead of this script.
+const DEFAULT_PROFILES_PATH = path.join(__dirname, '..', 'assets', 'conversion-profiles.json');
+
+interface ConversionResult {
+  inputPath: string;
+  outputPath: string;
+  profile?: string;
+  rows?: number;
+  rejected?: number;
+  error?: string;
 }
 
-const configs: ConversionConfig[] = [
-  // гастро.xlsx: 5 columns (no Unit), add Unit = "уп."
-  { inputFile: 'гастро.xlsx', outputFile: 'гастро.csv', skipRows: 4, hasUnitColumn: false },
-  // нерол.xlsx: standard
-  { inputFile: 'нерол.xlsx', outputFile: 'нерол.csv', skipRows: 4, hasUnitColumn: true },
-  // нефро.xlsx: standard
-  { inputFile: 'нефро.xlsx', outputFile: 'нефро.csv', skipRows: 4, hasUnitColumn: true },
-  // педиатрия.xlsx: standard
-  { inputFile: 'педиатрия.xlsx', outputFile: 'педиатрия.csv', skipRows: 4, hasUnitColumn: true },
-  // приемное.xlsx: 7 columns (extra empty column 3)
-  { inputFile: 'приемное.xlsx', outputFile: 'приемное.csv', skipRows: 4, hasUnitColumn: true, extraColumn: 2 },
-  // реанимация.xlsx: standard
-  { inputFile: 'реанимация.xlsx', outputFile: 'реанимация.csv', skipRows: 4, hasUnitColumn: true },
-  // эндо.xlsx: 3 header rows (data starts at row 4)
-  { inputFile: 'эндо.xlsx', outputFile: 'эндо.csv', skipRows: 3, hasUnitColumn: true },
-];
-
 function escapeCSV(value: string | number | null | undefined): string {
   if (value === null || value === undefined) return '';
   const str = String(value);
@@ -36,107 +27,144 @@ function escapeCSV(value: string | number | null | undefined): string {
   return str;
 }
 
-function convertExcel(config: ConversionConfig, assetsDir: string): void {
-  const inputPath = path.join(assetsDir, config.inputFile);
-  const outputPath = path.join(assetsDir, config.outputFile);
-
-  console.log(`\nConverting ${config.inputFile}...`);
+function convertExcel(inputPath: string, outputPath: string, options: ParseOptions): ConversionResult {
+  const { items, diagnostics } = parseWorkbookWithDiagnostics(inputPath, options);
 
-  const workbook = XLSX.readFile(inputPath);
-  const sheetName = workbook.SheetNames[0];
-  const sheet = workbook.Sheets[sheetName];
-
-  // Get all data as array of arrays
-  const data: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '' });
+  for (const diagnostic of diagnostics) {
+    console.log(`  Row ${diagnostic.line}: ${diagnostic.severity}: ${diagnostic.reason}`);
+  }
+  const title = path.basename(inputPath, path.extname(inputPath));
 
   // Prepare header lines (same as ОПН.csv format)
   const headerLines = [
-    `${path.basename(config.inputFile, '.xlsx')} 2025 г.,,,,,`,
+    `${title} 2025 г.,,,,,`,
     'По всем товарам. По всем отделам. По всем изготовителям. По всем ОКП. Фильтр по фармгруппам. По всем ставкам НДС. По всем видам договоров.,,,,,',
     'Товар - название,,Ед.,Операции расхода,,',
     ',,,Кол-во,Сумма,',
   ];
 
   const csvLines: string[] = [...headerLines];
-  let dataRowCount = 0;
 
-  // Process data rows
-  for (let i = config.skipRows; i < data.length; i++) {
-    let row = data[i];
+  for (const item of items) {
+    const csvRow = [item.code, item.name, item.unit, item.quantity, item.amount, item.ven];
+    csvLines.push(csvRow.map((cell) => escapeCSV(cell)).join(','));
+  }
 
-    // Skip empty rows or total rows
-    if (!row || row.length === 0) continue;
-    const firstCell = String(row[0] || '').trim();
-    if (!firstCell || firstCell.toLowerCase().includes('всего') || firstCell.toLowerCase().includes('итого')) {
-      continue;
-    }
+  // Add totals row (placeholder)
+  csvLines.push(',,Всего:,,,');
 
-    // Remove extra column if specified
-    if (config.extraColumn !== undefined) {
-      row = [...row.slice(0, config.extraColumn), ...row.slice(config.extraColumn + 1)];
-    }
+  // Write output
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, csvLines.join('\r\n'), 'utf-8');
 
-    let csvRow: string[];
-
-    if (!config.hasUnitColumn) {
-      // Insert "уп." as Unit column (position 2)
-      // Expected input: Код, Товар, Кол-во, Сумма, VEN
-      // Expected output: Код, Товар, Ед., Кол-во, Сумма, VEN
-      const code = row[0];
-      const name = row[1];
-      const qty = row[2];
-      const amount = row[3];
-      const ven = row[4];
-      csvRow = [
-        escapeCSV(code),
-        escapeCSV(name),
-        'уп.',
-        escapeCSV(qty),
-        escapeCSV(amount),
-        escapeCSV(ven),
-      ];
-    } else {
-      // Standard format: Код, Товар, Ед., Кол-во, Сумма, VEN
-      csvRow = row.slice(0, 6).map((cell: any) => escapeCSV(cell));
-    }
+  return {
+    inputPath,
+    outputPath,
+    rows: items.length,
+    rejected: diagnostics.filter((d) => d.severity === 'error').length,
+  };
+}
 
-    // Validate that this looks like a data row (code should be a number, VEN should be V/E/N)
-    const code = parseInt(String(csvRow[0]), 10);
-    const ven = String(csvRow[5] || '').trim().toUpperCase();
+function printUsage(): void {
+  console.log('Usage: npx tsx src/convertExcel.ts [options] [input.xlsx ...]');
+  console.log('');
+  console.log('Without inputs, converts every file matched by the profiles\' "input" patterns.');
+  console.log('');
+  console.log('Options:');
+  console.log('  --profiles <file>    conversion profiles JSON (default: assets/conversion-profiles.json)');
+  console.log('  --output <file>      output CSV path (single input only)');
+  console.log('  --output-dir <dir>   directory for output CSVs (default: next to each input)');
+  console.log('  --help               show this help');
+}
 
-    if (isNaN(code) || !['V', 'E', 'N'].includes(ven)) {
-      continue;
-    }
+function outputPathFor(inputPath: string, output: string | undefined, outputDir: string | undefined): string {
+  if (output) {
+    return path.resolve(output);
+  }
+  const fileName = `${path.basename(inputPath, path.extname(inputPath))}.csv`;
+  return path.join(outputDir ? path.resolve(outputDir) : path.dirname(inputPath), fileName);
+}
 
-    // Ensure VEN is uppercase
-    csvRow[5] = ven;
+function main(): number {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      profiles: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      'output-dir': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    printUsage();
+    return 0;
+  }
 
-    csvLines.push(csvRow.join(','));
-    dataRowCount++;
+  const profilesPath = path.resolve(values.profiles ?? DEFAULT_PROFILES_PATH);
+  let profiles: ConversionProfile[] = [];
+  if (fs.existsSync(profilesPath)) {
+    profiles = loadConversionProfiles(profilesPath);
+  } else if (values.profiles) {
+    console.error(`Profiles file not found: ${profilesPath}`);
+    return 1;
   }
 
-  // Add totals row (placeholder)
-  csvLines.push(',,Всего:,,,');
+  const inputs =
+    positionals.length > 0
+      ? positionals.map((input) => path.resolve(input))
+      : expandProfileInputs(profiles, path.dirname(profilesPath));
 
-  // Write output
-  fs.writeFileSync(outputPath, csvLines.join('\r\n'), 'utf-8');
+  if (inputs.length === 0) {
+    console.error('No input files');
+    printUsage();
+    return 1;
+  }
+  if (values.output && inputs.length > 1) {
+    console.error('--output can only be used with a single input file');
+    return 1;
+  }
 
-  console.log(`  Created ${config.outputFile} with ${dataRowCount} data rows`);
-}
+  console.log('Excel to CSV Converter');
+  console.log('======================');
+  console.log(`Profiles: ${fs.existsSync(profilesPath) ? profilesPath : '(none)'}`);
 
-// Main
-const assetsDir = path.join(__dirname, '..', 'assets');
+  const results: ConversionResult[] = [];
 
-console.log('Excel to CSV Converter');
-console.log('======================');
-console.log(`Assets directory: ${assetsDir}`);
+  for (const inputPath of inputs) {
+    const outputPath = outputPathFor(inputPath, values.output, values['output-dir']);
+    const profile = findProfile(profiles, inputPath);
+    let result: ConversionResult = { inputPath, outputPath, profile: profile?.name };
 
-for (const config of configs) {
-  try {
-    convertExcel(config, assetsDir);
-  } catch (error) {
-    console.error(`  Error converting ${config.inputFile}:`, error);
+    console.log(`\nConverting ${path.basename(inputPath)}${profile ? ` (profile: ${profile.name})` : ''}...`);
+
+    try {
+      result = { ...result, ...convertExcel(inputPath, outputPath, profile ?? {}) };
+      console.log(`  Created ${outputPath} with ${result.rows} data rows`);
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error(`  Error converting ${path.basename(inputPath)}: ${result.error}`);
+    }
+
+    results.push(result);
+  }
+
+  const failed = results.filter((result) => result.error !== undefined);
+
+  console.log('\n======================');
+  for (const result of results) {
+    const status = result.error === undefined ? '✓' : '✗';
+    const details = result.error === undefined ? `${result.rows} rows, ${result.rejected} rejected` : result.error;
+    console.log(`${status} ${path.basename(result.inputPath).padEnd(24)} ${details}`);
   }
+  console.log(`\nConverted: ${results.length - failed.length}, failed: ${failed.length}`);
+
+  return failed.length > 0 ? 1 : 0;
 }
 
-console.log('\nConversion complete!');
+try {
+  process.exit(main());
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { decodeText, detectDelimiter, resolveDelimiter, resolveEncoding } from './csvFormat';
+
+// windows-1251 bytes for ASCII and Russian letters
+const toCP1251 = (text: string): Buffer =>
+  Buffer.from(
+    [...text].map((char) => {
+      const code = char.charCodeAt(0);
+      if (code >= 0x410 && code <= 0x44f) return code - 0x410 + 0xc0;
+      if (char === 'ё') return 0xb8;
+      if (char === 'Ё') return 0xa8;
+      return code;
+    })
+  );
+
+describe('decodeText', () => {
+  it('should read valid UTF-8 without BOM as UTF-8', () => {
+    expect(decodeText(Buffer.from('Код,Сумма', 'utf-8'))).toEqual({
+      text: 'Код,Сумма',
+      encoding: 'utf-8',
+      bom: false,
+    });
+  });
+
+  it('should strip a UTF-8 BOM', () => {
+    const buffer = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('Код', 'utf-8')]);
+
+    expect(decodeText(buffer)).toEqual({ text: 'Код', encoding: 'utf-8', bom: true });
+  });
+
+  it('should read UTF-16LE by its BOM', () => {
+    const buffer = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Код\tСумма', 'utf16le')]);
+
+    expect(decodeText(buffer)).toEqual({ text: 'Код\tСумма', encoding: 'utf-16le', bom: true });
+  });
+
+  it('should fall back to windows-1251 when the bytes are not UTF-8', () => {
+    expect(decodeText(toCP1251('Всего: Ёлка'))).toEqual({ text: 'Всего: Ёлка', encoding: 'windows-1251', bom: false });
+  });
+
+  it('should use the given encoding', () => {
+    const buffer = Buffer.from('Код', 'utf-8');
+
+    expect(decodeText(buffer, 'windows-1251').encoding).toBe('windows-1251');
+    expect(decodeText(buffer, 'windows-1251').text).not.toBe('Код');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('should detect comma, semicolon and tab', () => {
+    expect(detectDelimiter(['a,b,c', '1,2,3'])).toBe(',');
+    expect(detectDelimiter(['a;b;c', '1;2;3'])).toBe(';');
+    expect(detectDelimiter(['a\tb\tc', '1\t2\t3'])).toBe('\t');
+  });
+
+  it('should not mistake decimal commas for delimiters', () => {
+    const lines = [
+      'ОПН 2025 г.;;;;;',
+      ';;;Кол-во;Сумма;',
+      '1;Препарат А;уп.;10;1234,56;V',
+      '2;Препарат Б;уп.;2,5;99,9;E',
+      '3;Препарат В;уп.;1;100;N',
+    ];
+
+    expect(detectDelimiter(lines)).toBe(';');
+  });
+
+  it('should ignore delimiters inside quotes', () => {
+    expect(detectDelimiter(['1;"Раствор 0,9%, 10 мл";V', '2;"Таблетки, 20 шт.";E'])).toBe(';');
+  });
+
+  it('should default to comma', () => {
+    expect(detectDelimiter(['', 'одна колонка'])).toBe(',');
+  });
+});
+
+describe('resolveEncoding and resolveDelimiter', () => {
+  it('should accept aliases', () => {
+    expect(resolveEncoding('CP1251')).toBe('windows-1251');
+    expect(resolveEncoding('utf8')).toBe('utf-8');
+    expect(resolveDelimiter('tab')).toBe('\t');
+    expect(resolveDelimiter(';')).toBe(';');
+  });
+
+  it('should reject unknown values', () => {
+    expect(() => resolveEncoding('koi8-r')).toThrow('Неизвестная кодировка');
+    expect(() => resolveDelimiter('|')).toThrow('Неизвестный разделитель');
+  });
+});
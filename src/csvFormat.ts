@@ -0,0 +1,118 @@
+import { CSVDelimiter, CSVEncoding } from './types';
+
+export const CSV_ENCODINGS: CSVEncoding[] = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1251'];
+
+export const CSV_DELIMITERS: CSVDelimiter[] = [',', ';', '\t'];
+
+// Alternative spellings accepted on the command line and in options
+const ENCODING_ALIASES: Record<string, CSVEncoding> = {
+  utf8: 'utf-8',
+  cp1251: 'windows-1251',
+  win1251: 'windows-1251',
+  'windows1251': 'windows-1251',
+};
+
+const DELIMITER_ALIASES: Record<string, CSVDelimiter> = {
+  comma: ',',
+  semicolon: ';',
+  tab: '\t',
+  '\\t': '\t',
+};
+
+const BOMS: { bytes: number[]; encoding: CSVEncoding }[] = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: 'utf-8' },
+  { bytes: [0xff, 0xfe], encoding: 'utf-16le' },
+  { bytes: [0xfe, 0xff], encoding: 'utf-16be' },
+];
+
+// Lines inspected when guessing the delimiter
+const DELIMITER_SAMPLE_LINES = 50;
+
+export interface DecodedText {
+  text: string;
+  encoding: CSVEncoding;
+  bom: boolean;
+}
+
+export function resolveEncoding(name: string): CSVEncoding {
+  const normalized = name.trim().toLowerCase();
+  const encoding = ENCODING_ALIASES[normalized] ?? normalized;
+  if (!CSV_ENCODINGS.includes(encoding as CSVEncoding)) {
+    throw new Error(`Неизвестная кодировка: ${name} (допустимо: ${CSV_ENCODINGS.join(', ')})`);
+  }
+  return encoding as CSVEncoding;
+}
+
+export function resolveDelimiter(name: string): CSVDelimiter {
+  const delimiter = DELIMITER_ALIASES[name.toLowerCase()] ?? name;
+  if (!CSV_DELIMITERS.includes(delimiter as CSVDelimiter)) {
+    throw new Error(`Неизвестный разделитель: ${name} (допустимо: ",", ";", tab)`);
+  }
+  return delimiter as CSVDelimiter;
+}
+
+/**
+ * Decodes file contents. A byte order mark decides the encoding; otherwise
+ * the bytes are read as UTF-8 if valid and as windows-1251 if not. A given
+ * encoding overrides detection, the BOM is still stripped.
+ */
+export function decodeText(buffer: Buffer, encoding?: CSVEncoding): DecodedText {
+  const bom = BOMS.find((candidate) => candidate.bytes.every((byte, i) => buffer[i] === byte));
+  const body = bom && (!encoding || encoding === bom.encoding) ? buffer.subarray(bom.bytes.length) : buffer;
+
+  if (encoding) {
+    return { text: new TextDecoder(encoding).decode(body), encoding, bom: false };
+  }
+  if (bom) {
+    return { text: new TextDecoder(bom.encoding).decode(body), encoding: bom.encoding, bom: true };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(body), encoding: 'utf-8', bom: false };
+  } catch {
+    return { text: new TextDecoder('windows-1251').decode(body), encoding: 'windows-1251', bom: false };
+  }
+}
+
+/**
+ * Picks the candidate that splits most sample lines into the same number of
+ * cells. Quoted text is ignored, so "1234,56" in a ';' file does not count
+ * as a comma. Comma is the default when nothing is found.
+ */
+export function detectDelimiter(lines: string[]): CSVDelimiter {
+  const sample = lines.filter((line) => line.trim() !== '').slice(0, DELIMITER_SAMPLE_LINES);
+  let best: CSVDelimiter = ',';
+  let bestLines = 0;
+  let bestCells = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const frequency = new Map<number, number>();
+    for (const line of sample) {
+      const n = countUnquoted(line, delimiter);
+      if (n > 0) {
+        frequency.set(n, (frequency.get(n) ?? 0) + 1);
+      }
+    }
+    // Ties go to the delimiter giving more cells per line: decimal commas are fewer than columns
+    for (const [cells, lineCount] of frequency) {
+      if (lineCount > bestLines || (lineCount === bestLines && cells > bestCells)) {
+        best = delimiter;
+        bestLines = lineCount;
+        bestCells = cells;
+      }
+    }
+  }
+  return best;
+}
+
+function countUnquoted(line: string, delimiter: CSVDelimiter): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      count++;
+    }
+  }
+  return count;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { readCSVRecords, readFileChunks } from './csvReader';
+
+const read = (input: string | string[], delimiter?: ',' | ';' | '\t') => [...readCSVRecords(input, { delimiter })];
+
+describe('readCSVRecords', () => {
+  it('should split records and cells', () => {
+    expect(read('a,b,c\n1,2,3')).toEqual([
+      { cells: ['a', 'b', 'c'], line: 1, raw: 'a,b,c' },
+      { cells: ['1', '2', '3'], line: 2, raw: '1,2,3' },
+    ]);
+  });
+
+  it('should accept CRLF and CR line endings', () => {
+    expect(read('a,b\r\n1,2\r3,4\r\n').map((record) => record.cells)).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+    ]);
+  });
+
+  it('should keep empty lines and edge cells', () => {
+    expect(read(',a,\n\n,,').map((record) => record.cells)).toEqual([['', 'a', ''], [''], ['', '', '']]);
+  });
+
+  it('should not yield a record after the final line break', () => {
+    expect(read('a\n')).toHaveLength(1);
+    expect(read('')).toEqual([]);
+  });
+
+  it('should read quoted fields with delimiters and doubled quotes', () => {
+    expect(read('1,"Раствор 0,9%","Таблетки ""Б""",""')[0].cells).toEqual(['1', 'Раствор 0,9%', 'Таблетки "Б"', '']);
+  });
+
+  it('should read quoted fields spanning lines', () => {
+    const records = read('1,"Препарат\r\nв две строки",V\n2,Б,E');
+
+    expect(records).toEqual([
+      { cells: ['1', 'Препарат\r\nв две строки', 'V'], line: 1, raw: '1,"Препарат\r\nв две строки",V' },
+      { cells: ['2', 'Б', 'E'], line: 3, raw: '2,Б,E' },
+    ]);
+  });
+
+  it('should use the given delimiter', () => {
+    expect(read('1;"a;b";1,5', ';')[0].cells).toEqual(['1', 'a;b', '1,5']);
+    expect(read('1\t\t3', '\t')[0].cells).toEqual(['1', '', '3']);
+  });
+
+  it('should take quotes inside unquoted fields literally', () => {
+    expect(read('1,Раствор "Б",V')[0]).toEqual({ cells: ['1', 'Раствор "Б"', 'V'], line: 1, raw: '1,Раствор "Б",V' });
+  });
+
+  it('should report text after a closing quote', () => {
+    const [record] = read('1,"Препарат" А,V');
+
+    expect(record.cells).toEqual(['1', 'Препарат А', 'V']);
+    expect(record.error).toBe('текст после закрывающей кавычки в поле 2');
+  });
+
+  it('should report a quote left open at the end of input', () => {
+    const records = read('1,А,V\n2,"Б,E\n3,В,N');
+
+    expect(records).toHaveLength(2);
+    expect(records[1]).toEqual({
+      cells: ['2', 'Б,E\n3,В,N'],
+      line: 2,
+      raw: '2,"Б,E\n3,В,N',
+      error: 'не закрыта кавычка в поле 2',
+    });
+  });
+
+  it('should give the same records for any chunking', () => {
+    const text = '1,"a ""b""\r\nc",d\r\n2,e,f\r\n';
+    const chunks = [...text];
+
+    expect(read(chunks)).toEqual(read(text));
+    expect(read(['1,"a "', '"b""\r', '\nc",d\r', '\n2,e,f\r\n'])).toEqual(read(text));
+  });
+});
+
+describe('readFileChunks', () => {
+  const testDir = path.join(__dirname, '../test-output-csv-reader');
+  const testFile = path.join(testDir, 'test.csv');
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should decode characters split between chunks', () => {
+    const text = '1,"Препарат А\nфорте",V\r\n2,Препарат Б,N\r\n';
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(testFile, text, 'utf-8');
+
+    const chunks = [...readFileChunks(testFile, 'utf-8', 3)];
+
+    expect(chunks.length).toBeGreaterThan(10);
+    expect(chunks.join('')).toBe(text);
+    expect([...readCSVRecords(readFileChunks(testFile, 'utf-8', 3))]).toEqual([...readCSVRecords(text)]);
+  });
+});
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import { CSVDelimiter } from './types';
+
+export interface CSVRecord {
+  cells: string[];
+  /** 1-based line where the record starts; quoted fields may span lines */
+  line: number;
+  /** Record text without the line terminator */
+  raw: string;
+  /** Malformed quoting; the cells are still read as well as possible */
+  error?: string;
+}
+
+export interface CSVReadOptions {
+  delimiter?: CSVDelimiter;
+}
+
+// Bytes read from disk at a time by readFileChunks
+const FILE_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Reads a text file piece by piece, so that readCSVRecords can yield
+ * records without the whole file in memory. Characters split between
+ * pieces are decoded once complete.
+ */
+export function* readFileChunks(filePath: string, encoding = 'utf-8', chunkSize = FILE_CHUNK_SIZE): Generator<string> {
+  const decoder = new TextDecoder(encoding);
+  const buffer = Buffer.alloc(chunkSize);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, chunkSize, null)) > 0) {
+      yield decoder.decode(buffer.subarray(0, bytesRead), { stream: true });
+    }
+    yield decoder.decode();
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Reads CSV records as described in RFC 4180: fields may be quoted, quotes
+ * inside them are doubled, and quoted fields may contain delimiters and line
+ * breaks. Records end with LF, CRLF or CR. Input may be given in chunks of
+ * any size, records are yielded as soon as they are complete.
+ *
+ * Like spreadsheet programs, a quote inside an unquoted field is taken
+ * literally. Text after a closing quote and a quote left open at the end of
+ * the input are reported in `error`.
+ */
+export function* readCSVRecords(input: string | Iterable<string>, options: CSVReadOptions = {}): Generator<CSVRecord> {
+  const delimiter = options.delimiter ?? ',';
+  const chunks = typeof input === 'string' ? [input] : input;
+
+  let cells: string[] = [];
+  let field = '';
+  let raw = '';
+  let error: string | undefined;
+  let inQuotes = false;
+  // A quote inside a quoted field: either the first of "" or the closing one
+  let pendingQuote = false;
+  let afterClosingQuote = false;
+  let skipLineFeed = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = (): CSVRecord => {
+    cells.push(field);
+    const record: CSVRecord = { cells, line: recordLine, raw };
+    if (error) {
+      record.error = error;
+    }
+    cells = [];
+    field = '';
+    raw = '';
+    error = undefined;
+    afterClosingQuote = false;
+    return record;
+  };
+
+  for (const chunk of chunks) {
+    for (const char of chunk) {
+      // The LF of a CRLF was counted with the CR; inside quotes it is still text
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') {
+          if (inQuotes) {
+            field += char;
+            raw += char;
+          }
+          continue;
+        }
+      }
+
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += char;
+          raw += char;
+          continue;
+        }
+        inQuotes = false;
+        afterClosingQuote = true;
+      }
+
+      if (inQuotes) {
+        raw += char;
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+          if (char === '\n' || char === '\r') {
+            line++;
+            skipLineFeed = char === '\r';
+          }
+        }
+        continue;
+      }
+
+      if (char === '\n' || char === '\r') {
+        line++;
+        skipLineFeed = char === '\r';
+        yield endRecord();
+        recordLine = line;
+        continue;
+      }
+
+      raw += char;
+      if (char === delimiter) {
+        cells.push(field);
+        field = '';
+        afterClosingQuote = false;
+      } else if (char === '"' && !afterClosingQuote && field.trim() === '') {
+        // Spaces before the opening quote are dropped
+        field = '';
+        inQuotes = true;
+      } else {
+        if (afterClosingQuote && char.trim() !== '' && !error) {
+          error = `текст после закрывающей кавычки в поле ${cells.length + 1}`;
+        }
+        field += char;
+      }
+    }
+  }
+
+  if (inQuotes && !pendingQuote) {
+    error = `не закрыта кавычка в поле ${cells.length + 1}`;
+  }
+  if (raw !== '' || cells.length > 0 || inQuotes) {
+    yield endRecord();
+  }
+}
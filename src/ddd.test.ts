@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calculateDDD, loadDDDReference, summarizeDDD } from './ddd';
+import { DDDReferenceEntry, DrugItem } from './types';
+
+const item = (code: number, name: string, quantity: number, amount: number, atc?: string, unit = 'уп.'): DrugItem => ({
+  code,
+  name,
+  unit,
+  quantity,
+  amount,
+  ven: 'V',
+  ...(atc ? { atc } : {}),
+});
+
+const reference: DDDReferenceEntry[] = [
+  { atc: 'J01DD04', ddd: { value: 2, unit: 'g' }, route: 'P' },
+  { atc: 'C01CA24', ddd: { value: 0.5, unit: 'mg' }, route: 'P' },
+  { atc: 'N05AA01', ddd: { value: 0.3, unit: 'g' }, route: 'O' },
+  { atc: 'N05AA01', ddd: { value: 0.1, unit: 'g' }, route: 'P' },
+  { atc: 'B01AB01', ddd: { value: 10, unit: 'TU' }, route: 'P' },
+];
+
+describe('calculateDDD', () => {
+  it('should count DDDs from packs, pack size and strength', () => {
+    const [result] = calculateDDD([item(1, 'Цефтриаксон пор. в/в, в/м 1г №50', 2, 1000, 'J01DD04')], reference);
+
+    expect(result.doseUnits).toBe(100);
+    expect(result.dddCount).toBe(50);
+    expect(result.costPerDDD).toBe(20);
+    expect(result.dddPer100BedDays).toBeUndefined();
+  });
+
+  it('should read substance from percentages and concentrations with the fill volume', () => {
+    const results = calculateDDD(
+      [
+        item(1, 'Адреналин амп. 0,1% 1мл №5', 24, 1929.6, 'C01CA24'),
+        item(2, 'Гепарин фл. 5000ЕД/мл 5мл', 10, 500, 'B01AB01', 'фл.'),
+      ],
+      reference
+    );
+
+    expect(results.map((result) => result.dddCount)).toEqual([240, 25]);
+  });
+
+  it('should choose the DDD of the route implied by the dosage form', () => {
+    const results = calculateDDD(
+      [item(1, 'Аминазин амп. 2,5% 2мл №10', 3, 650, 'N05AA01'), item(2, 'Аминазин таб. 100мг №10', 9, 90, 'N05AA01')],
+      reference
+    );
+
+    expect(results.map((result) => result.dddCount)).toEqual([15, 30]);
+  });
+
+  it('should give DDDs per 100 bed-days', () => {
+    const [result] = calculateDDD([item(1, 'Цефтриаксон пор. в/в, в/м 1г №50', 2, 1000, 'J01DD04')], reference, 400);
+
+    expect(result.dddPer100BedDays).toBe(12.5);
+  });
+
+  it('should explain why DDDs could not be computed', () => {
+    const results = calculateDDD(
+      [
+        item(1, 'Препарат А 1г №10', 1, 10),
+        item(2, 'Мирамистин 0,01% р-р', 1, 10, 'D08AJ'),
+        item(3, 'Цефтриаксон пор. 1г', 1, 10, 'J01DD04'),
+        item(4, 'Цефтриаксон пор. №50', 1, 10, 'J01DD04'),
+        item(5, 'Цефтриаксон пор. 1г', 1, 10, 'J01DD04', 'кг'),
+        item(6, 'Аминазин р-р 2,5% 2мл', 1, 10, 'N05AA01', 'шт'),
+        item(7, 'Гепарин фл. 100мг', 1, 10, 'B01AB01', 'фл.'),
+      ],
+      reference
+    );
+
+    expect(results.map((result) => result.reason)).toEqual([
+      'нет кода ATC',
+      'нет DDD для D08AJ',
+      'нет числа в упаковке',
+      'нет дозировки',
+      'единица "кг" не поддерживается',
+      'путь введения для N05AA01 не определён',
+      'дозировка в мг несопоставима с DDD в TU',
+    ]);
+    expect(results.every((result) => result.dddCount === undefined)).toBe(true);
+  });
+});
+
+describe('summarizeDDD', () => {
+  it('should sum DDDs and spend by ATC code and route', () => {
+    const results = calculateDDD(
+      [
+        item(1, 'Цефтриаксон пор. 1г №50', 1, 500, 'J01DD04'),
+        item(2, 'Цефтриаксон 1г', 10, 300, 'J01DD04', 'фл.'),
+        item(3, 'Адреналин амп. 0,1% 1мл №5', 1, 80, 'C01CA24'),
+        item(4, 'Препарат А', 1, 100),
+      ],
+      reference
+    );
+
+    expect(summarizeDDD(results, 200)).toEqual([
+      { atc: 'J01DD04', ddd: { value: 2, unit: 'g' }, dddCount: 30, amount: 800, costPerDDD: 800 / 30, dddPer100BedDays: 15 },
+      { atc: 'C01CA24', ddd: { value: 0.5, unit: 'mg' }, dddCount: 10, amount: 80, costPerDDD: 8, dddPer100BedDays: 5 },
+    ]);
+  });
+});
+
+describe('loadDDDReference', () => {
+  const testDir = path.join(__dirname, '../test-data-ddd');
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  const createFile = (filename: string, content: string): string => {
+    const filePath = path.join(testDir, filename);
+    fs.writeFileSync(filePath, content, 'utf-8');
+    return filePath;
+  };
+
+  it('should read DDDs with units in their own column or in the value', () => {
+    const filePath = createFile(
+      'ddd.csv',
+      ['ATC code;Name;DDD;U;Adm.R', 'J01D;Other beta-lactams;;;', 'J01DD04;ceftriaxone;2;g;P', 'c01ca24;epinephrine;0,5 mg;;'].join('\n')
+    );
+
+    expect(loadDDDReference(filePath)).toEqual([
+      { atc: 'J01DD04', ddd: { value: 2, unit: 'g' }, route: 'P' },
+      { atc: 'C01CA24', ddd: { value: 0.5, unit: 'mg' } },
+    ]);
+  });
+
+  it('should report invalid rows with their line', () => {
+    const badValue = createFile('a.csv', 'ATC;DDD;U\nJ01DD04;два;g\n');
+    const badUnit = createFile('b.csv', 'ATC;DDD;U\nJ01DD04;2;ml\n');
+    const noDDD = createFile('c.csv', 'ATC;Наименование\nJ01DD04;Цефтриаксон\n');
+
+    expect(() => loadDDDReference(badValue)).toThrow('Справочник DDD, строка 2: некорректное значение DDD "два"');
+    expect(() => loadDDDReference(badUnit)).toThrow('Справочник DDD, строка 2: неизвестная единица DDD "ml"');
+    expect(() => loadDDDReference(noDDD)).toThrow('Справочник DDD: не найдена колонка "DDD"');
+  });
+});
@@ -0,0 +1,224 @@
+import { isATCCode } from './atc';
+import { normalizeHeader } from './columns';
+import { readDictionaryTable } from './dictionaryFile';
+import { parseDrugName } from './drugName';
+import { DDDReferenceEntry, DDDResult, DDDSubstanceSummary, DosageForm, DrugItem, DrugNameDetails, Measure } from './types';
+
+const DDD_HEADERS = ['ddd', 'сдд'];
+const DDD_UNIT_HEADERS = ['u', 'unit', 'ед. ddd', 'единица ddd'];
+const ROUTE_HEADERS = ['adm.r', 'adm. r', 'route', 'путь', 'путь введения'];
+
+// Substance units by kind, as multiples of 1 mg or 1 unit of activity
+const SUBSTANCE_UNITS: Record<string, { kind: 'mass' | 'activity'; factor: number }> = {
+  мкг: { kind: 'mass', factor: 0.001 },
+  mcg: { kind: 'mass', factor: 0.001 },
+  мг: { kind: 'mass', factor: 1 },
+  mg: { kind: 'mass', factor: 1 },
+  г: { kind: 'mass', factor: 1000 },
+  g: { kind: 'mass', factor: 1000 },
+  ме: { kind: 'activity', factor: 1 },
+  ед: { kind: 'activity', factor: 1 },
+  u: { kind: 'activity', factor: 1 },
+  iu: { kind: 'activity', factor: 1 },
+  тысед: { kind: 'activity', factor: 1000 },
+  тысме: { kind: 'activity', factor: 1000 },
+  tu: { kind: 'activity', factor: 1000 },
+  млнед: { kind: 'activity', factor: 1e6 },
+  млнме: { kind: 'activity', factor: 1e6 },
+  mu: { kind: 'activity', factor: 1e6 },
+};
+
+// Item units counted per pack and per dose unit
+const PACK_UNITS = ['уп', 'упак', 'упаковка', 'пач'];
+const PIECE_UNITS = ['шт', 'амп', 'фл', 'флак', 'флакон', 'таб', 'капс', 'тюб', 'бут'];
+
+// WHO route of administration implied by the dosage form
+const FORM_ROUTES: Partial<Record<DosageForm, string>> = {
+  ampoule: 'P',
+  vial: 'P',
+  lyophilisate: 'P',
+  tablet: 'O',
+  capsule: 'O',
+  syrup: 'O',
+  suspension: 'O',
+  granules: 'O',
+  suppository: 'R',
+};
+
+function substanceUnit(unit: string): { kind: 'mass' | 'activity'; factor: number } | undefined {
+  return SUBSTANCE_UNITS[unit.toLowerCase().replace(/[.\s]/g, '')];
+}
+
+function millilitres(volume: Measure): number {
+  return volume.unit === 'л' ? volume.value * 1000 : volume.value;
+}
+
+/**
+ * Loads DDDs from CSV or a workbook's first sheet, e.g. an export of the
+ * WHO ATC/DDD index: an "ATC" column, a "DDD" column whose value may carry
+ * the unit ("1 g"), and optionally "U" (unit) and "Adm.R" (route) columns.
+ * Rows without a DDD, such as group headings, are skipped.
+ */
+export function loadDDDReference(filePath: string): DDDReferenceEntry[] {
+  const { rows, headerRow, column, fieldColumn } = readDictionaryTable(filePath, 'atc', 'Справочник DDD');
+  const atcCol = fieldColumn('atc');
+  const dddCol = column((cell) => DDD_HEADERS.includes(normalizeHeader(cell)));
+  const unitCol = column((cell) => DDD_UNIT_HEADERS.includes(normalizeHeader(cell)));
+  const routeCol = column((cell) => ROUTE_HEADERS.includes(normalizeHeader(cell)));
+  if (dddCol === -1) {
+    throw new Error(`Справочник DDD: не найдена колонка "DDD": ${filePath}`);
+  }
+
+  const entries: DDDReferenceEntry[] = [];
+  for (let i = headerRow + 1; i < rows.length; i++) {
+    const cell = (col: number): string => (col === -1 ? '' : (rows[i][col] ?? '').trim());
+    const dddText = cell(dddCol);
+    if (!dddText) {
+      continue;
+    }
+
+    const context = `Справочник DDD, строка ${i + 1}`;
+    const atc = cell(atcCol).toUpperCase().replace(/\s+/g, '');
+    if (!isATCCode(atc)) {
+      throw new Error(`${context}: недопустимый код ATC "${cell(atcCol)}"`);
+    }
+    const match = dddText.match(/^(\d+(?:[.,]\d+)?)\s*(.*)$/);
+    const value = match ? parseFloat(match[1].replace(',', '.')) : NaN;
+    if (!match || !(value > 0)) {
+      throw new Error(`${context}: некорректное значение DDD "${dddText}"`);
+    }
+    const unit = match[2] || cell(unitCol);
+    if (!substanceUnit(unit)) {
+      throw new Error(`${context}: неизвестная единица DDD "${unit}"`);
+    }
+
+    const entry: DDDReferenceEntry = { atc, ddd: { value, unit } };
+    if (cell(routeCol)) {
+      entry.route = cell(routeCol).toUpperCase();
+    }
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/** Substance in one ampoule, tablet, etc., or why it cannot be told from the name */
+function substancePerUnit(details: DrugNameDetails): Measure | string {
+  const { strength, strengthVolume, volume } = details;
+  if (!strength) {
+    return 'нет дозировки';
+  }
+  if (strength.unit === '%') {
+    // 1 % is 10 mg per ml
+    return volume ? { value: strength.value * 10 * millilitres(volume), unit: 'мг' } : 'нет объёма для дозировки в %';
+  }
+  if (!strengthVolume) {
+    return strength;
+  }
+  if (strengthVolume.unit !== 'мл') {
+    return `дозировка указана на ${strengthVolume.unit}`;
+  }
+  return volume
+    ? { value: (strength.value * millilitres(volume)) / strengthVolume.value, unit: strength.unit }
+    : 'нет объёма для дозировки на мл';
+}
+
+/** Ampoules, tablets, etc. consumed: packs times the pack size, or pieces as they are */
+function countDoseUnits(item: DrugItem, details: DrugNameDetails): number | string {
+  const unit = item.unit.toLowerCase().replace(/\./g, '').trim();
+  if (PIECE_UNITS.includes(unit)) {
+    return item.quantity;
+  }
+  if (PACK_UNITS.includes(unit)) {
+    return details.packSize ? item.quantity * details.packSize : 'нет числа в упаковке';
+  }
+  return `единица "${item.unit}" не поддерживается`;
+}
+
+/**
+ * Picks the DDD of the item's ATC code; when the code has DDDs for several
+ * routes, the route follows from the dosage form (ampoules are parenteral,
+ * tablets oral).
+ */
+function findDDD(atc: string, details: DrugNameDetails, reference: DDDReferenceEntry[]): DDDReferenceEntry | string {
+  const entries = reference.filter((entry) => entry.atc === atc);
+  if (entries.length === 0) {
+    return `нет DDD для ${atc}`;
+  }
+  if (entries.length === 1) {
+    return entries[0];
+  }
+  const route = details.form ? FORM_ROUTES[details.form] : undefined;
+  return entries.find((entry) => entry.route === route) ?? `путь введения для ${atc} не определён`;
+}
+
+/**
+ * Consumption of each item in defined daily doses: dose units consumed
+ * (from `quantity`, `unit` and the pack size in the name) times the
+ * substance per unit (from the strength and volume in the name), divided
+ * by the DDD of the item's ATC code. With `bedDays` the DDDs are also given
+ * per 100 bed-days.
+ */
+export function calculateDDD(items: DrugItem[], reference: DDDReferenceEntry[], bedDays?: number): DDDResult[] {
+  return items.map((item) => {
+    if (!item.atc) {
+      return { item, reason: 'нет кода ATC' };
+    }
+    const details = parseDrugName(item.name);
+    const ddd = findDDD(item.atc, details, reference);
+    if (typeof ddd === 'string') {
+      return { item, reason: ddd };
+    }
+    const doseUnits = countDoseUnits(item, details);
+    if (typeof doseUnits === 'string') {
+      return { item, ddd, reason: doseUnits };
+    }
+    const substance = substancePerUnit(details);
+    if (typeof substance === 'string') {
+      return { item, ddd, doseUnits, reason: substance };
+    }
+
+    const substanceKind = substanceUnit(substance.unit);
+    const dddKind = substanceUnit(ddd.ddd.unit);
+    if (!substanceKind || !dddKind || substanceKind.kind !== dddKind.kind) {
+      return { item, ddd, doseUnits, reason: `дозировка в ${substance.unit} несопоставима с DDD в ${ddd.ddd.unit}` };
+    }
+
+    const dddCount = (doseUnits * substance.value * substanceKind.factor) / (ddd.ddd.value * dddKind.factor);
+    const result: DDDResult = { item, ddd, doseUnits, dddCount };
+    if (dddCount > 0) {
+      result.costPerDDD = item.amount / dddCount;
+    }
+    if (bedDays) {
+      result.dddPer100BedDays = (dddCount / bedDays) * 100;
+    }
+    return result;
+  });
+}
+
+/** DDDs summed by ATC code and route, largest consumption first */
+export function summarizeDDD(results: DDDResult[], bedDays?: number): DDDSubstanceSummary[] {
+  const summaries = new Map<DDDReferenceEntry, DDDSubstanceSummary>();
+
+  for (const { item, ddd, dddCount } of results) {
+    if (!ddd || dddCount === undefined) {
+      continue;
+    }
+    let summary = summaries.get(ddd);
+    if (!summary) {
+      summary = { atc: ddd.atc, ddd: ddd.ddd, dddCount: 0, amount: 0, costPerDDD: 0 };
+      summaries.set(ddd, summary);
+    }
+    summary.dddCount += dddCount;
+    summary.amount += item.amount;
+  }
+
+  const result = [...summaries.values()];
+  for (const summary of result) {
+    summary.costPerDDD = summary.dddCount > 0 ? summary.amount / summary.dddCount : 0;
+    if (bedDays) {
+      summary.dddPer100BedDays = (summary.dddCount / bedDays) * 100;
+    }
+  }
+  return result.sort((a, b) => b.dddCount - a.dddCount);
+}
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { matchesField } from './columns';
+import { decodeText, detectDelimiter } from './csvFormat';
+import { readCSVRecords } from './csvReader';
+import { normalizeDrugName } from './merge';
+import { ColumnField } from './types';
+
+// How many rows from the top of a dictionary are searched for the header
+const HEADER_SEARCH_ROWS = 20;
+
+/** A dictionary table: the header row index and the rows below it */
+export interface DictionaryTable {
+  rows: string[][];
+  headerRow: number;
+  /** Column of the first header cell matching the check, -1 if none */
+  column: (match: (cell: string) => boolean) => number;
+  /** Column of a DrugItem field by its header synonyms, -1 if none */
+  fieldColumn: (field: ColumnField) => number;
+}
+
+function readRows(filePath: string): string[][] {
+  if (['.xlsx', '.xls', '.ods'].includes(path.extname(filePath).toLowerCase())) {
+    const workbook = XLSX.readFile(filePath);
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const data: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '', raw: true });
+    return data.map((row) => row.map((cell) => String(cell ?? '')));
+  }
+
+  const { text } = decodeText(fs.readFileSync(filePath));
+  const delimiter = detectDelimiter(text.split(/\r?\n/));
+  return [...readCSVRecords(text, { delimiter })].map((record) => record.cells);
+}
+
+/**
+ * Reads a dictionary from CSV or a workbook's first sheet. The header is
+ * the first of the top rows with a cell matching `keyField`; `title` names
+ * the dictionary in error messages.
+ */
+export function readDictionaryTable(filePath: string, keyField: ColumnField, title: string): DictionaryTable {
+  const absolutePath = path.resolve(filePath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`${title} не найден: ${absolutePath}`);
+  }
+
+  const rows = readRows(absolutePath);
+  const headerRow = rows.slice(0, HEADER_SEARCH_ROWS).findIndex((row) => row.some((cell) => matchesField(cell, keyField)));
+  if (headerRow === -1) {
+    throw new Error(`${title}: не найдена колонка "${keyField.toUpperCase()}": ${absolutePath}`);
+  }
+
+  const header = rows[headerRow];
+  const column = (match: (cell: string) => boolean): number => header.findIndex(match);
+  // "Код АТХ" also starts with the code synonym "код"
+  const fieldColumn = (field: ColumnField): number =>
+    column((cell) => matchesField(cell, field) && (field !== 'code' || !matchesField(cell, 'atc')));
+
+  return { rows, headerRow, column, fieldColumn };
+}
+
+/**
+ * Finds the dictionary entry for an item. Entries with a name match by
+ * normalized name (department files number their rows independently, so
+ * codes are not comparable across files); entries with only a code match
+ * by code. Later entries override earlier ones.
+ */
+export function createDictionaryLookup<T extends { code?: number; name?: string }>(
+  entries: T[]
+): (code: number | undefined, name: string) => T | undefined {
+  const byName = new Map<string, T>();
+  const byCode = new Map<number, T>();
+
+  for (const entry of entries) {
+    if (entry.name) {
+      byName.set(normalizeDrugName(entry.name), entry);
+    } else if (entry.code !== undefined) {
+      byCode.set(entry.code, entry);
+    }
+  }
+
+  return (code, name) => byName.get(normalizeDrugName(name)) ?? (code !== undefined ? byCode.get(code) : undefined);
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { getUnitPrice, missingNameFields, parseDrugName } from './drugName';
+import { DrugItem } from './types';
+
+describe('parseDrugName', () => {
+  it('should read form, percentage, volume and pack size', () => {
+    expect(parseDrugName('Адреналин амп. 0,1% 1мл №5')).toEqual({
+      form: 'ampoule',
+      strength: { value: 0.1, unit: '%' },
+      volume: { value: 1, unit: 'мл' },
+      packSize: 5,
+    });
+  });
+
+  it('should read mass strengths', () => {
+    expect(parseDrugName('Азитромицин таб. 500мг №3')).toEqual({
+      form: 'tablet',
+      strength: { value: 500, unit: 'мг' },
+      packSize: 3,
+    });
+    expect(parseDrugName('Виферон-1 свечи 150000МЕ №10').strength).toEqual({ value: 150000, unit: 'МЕ' });
+  });
+
+  it('should read concentrations with the volume they refer to', () => {
+    expect(parseDrugName('Диклофенак амп. 75мг/3мл №10')).toEqual({
+      form: 'ampoule',
+      strength: { value: 75, unit: 'мг' },
+      strengthVolume: { value: 3, unit: 'мл' },
+      packSize: 10,
+    });
+    expect(parseDrugName('Гепарин фл. 5000ЕД/мл 5мл №5')).toEqual({
+      form: 'vial',
+      strength: { value: 5000, unit: 'ЕД' },
+      strengthVolume: { value: 1, unit: 'мл' },
+      volume: { value: 5, unit: 'мл' },
+      packSize: 5,
+    });
+    expect(parseDrugName('Инсулин Актрапид НМ 100МЕ\\мл фл. 10мл').strengthVolume).toEqual({ value: 1, unit: 'мл' });
+  });
+
+  it('should prefer the dosage form to the container', () => {
+    expect(parseDrugName('Азитромицин  пор. д/сусп. 100мг/5мл фл.').form).toBe('powder');
+    expect(parseDrugName('Калия хлорид 7,5% 100 мл фл. №35').form).toBe('vial');
+  });
+
+  it('should read pack sizes written with N', () => {
+    expect(parseDrugName('Глюкоза 5%р-р д/инф. 250 мл N10 полимерн.фл.')).toEqual({
+      form: 'solution',
+      strength: { value: 5, unit: '%' },
+      volume: { value: 250, unit: 'мл' },
+      packSize: 10,
+    });
+  });
+
+  it('should return no fields for names without form, strength or pack', () => {
+    expect(parseDrugName('Валосердин')).toEqual({});
+  });
+});
+
+describe('missingNameFields', () => {
+  it('should list what was not found', () => {
+    expect(missingNameFields(parseDrugName('Азитромицин таб. 500мг №3'))).toEqual([]);
+    expect(missingNameFields(parseDrugName('Аспаркам таб. №50'))).toEqual(['дозировка']);
+    expect(missingNameFields({})).toEqual(['форма', 'дозировка', 'число в упаковке']);
+  });
+});
+
+describe('getUnitPrice', () => {
+  const item: DrugItem = { code: 1, name: 'Адреналин амп. 0,1% 1мл №5', unit: 'уп.', quantity: 2, amount: 196, ven: 'V' };
+
+  it('should divide the pack price by the pack size', () => {
+    expect(getUnitPrice(item, { packSize: 5 })).toBeCloseTo(19.6);
+  });
+
+  it('should be undefined without pack size or quantity', () => {
+    expect(getUnitPrice(item, {})).toBeUndefined();
+    expect(getUnitPrice({ ...item, quantity: 0 }, { packSize: 5 })).toBeUndefined();
+  });
+});
@@ -0,0 +1,134 @@
+import { DosageForm, DrugItem, DrugNameDetails, Measure } from './types';
+
+// Abbreviations and words naming the dosage form; "фл." is only the container
+export const FORM_WORDS: Record<string, DosageForm> = {
+  амп: 'ampoule',
+  ампулы: 'ampoule',
+  таб: 'tablet',
+  табл: 'tablet',
+  таблетки: 'tablet',
+  капс: 'capsule',
+  капсулы: 'capsule',
+  пор: 'powder',
+  порошок: 'powder',
+  лиоф: 'lyophilisate',
+  лиофилизат: 'lyophilisate',
+  'р-р': 'solution',
+  конц: 'solution',
+  раствор: 'solution',
+  сусп: 'suspension',
+  суспензия: 'suspension',
+  сироп: 'syrup',
+  кап: 'drops',
+  капли: 'drops',
+  мазь: 'ointment',
+  крем: 'cream',
+  гель: 'gel',
+  свечи: 'suppository',
+  супп: 'suppository',
+  гран: 'granules',
+  гранулы: 'granules',
+  спр: 'spray',
+  спрей: 'spray',
+  аэр: 'spray',
+  аэрозоль: 'spray',
+  эмульсия: 'emulsion',
+  эмульс: 'emulsion',
+};
+
+export const CONTAINER_WORDS: Record<string, DosageForm> = {
+  фл: 'vial',
+  флакон: 'vial',
+};
+
+const NUMBER = '(\\d+(?:[.,]\\d+)?)';
+// Cyrillic letters are not word characters for \b, so word ends are checked explicitly
+const WORD_END = '(?![а-яёa-z])';
+const SUBSTANCE_UNITS = 'мкг|мг|г|ме|ед|ле';
+
+const CONCENTRATION = new RegExp(`${NUMBER}\\s*(${SUBSTANCE_UNITS})\\s*[/\\\\]\\s*${NUMBER}?\\s*(мл|г|доза|доз)${WORD_END}`);
+const PERCENT = new RegExp(`${NUMBER}\\s*%`);
+const STRENGTH = new RegExp(`${NUMBER}\\s*(${SUBSTANCE_UNITS})${WORD_END}`);
+const VOLUME = new RegExp(`${NUMBER}\\s*(мл|л)${WORD_END}`);
+const PACK_SIZE = /(?:№|(?<![а-яёa-z])n)\s*(\d+)/;
+
+const UNIT_NAMES: Record<string, string> = { ме: 'МЕ', ед: 'ЕД', ле: 'ЛЕ', доз: 'доза' };
+
+function measure(value: string, unit: string): Measure {
+  return { value: parseFloat(value.replace(',', '.')), unit: UNIT_NAMES[unit] ?? unit };
+}
+
+function findForm(words: string[]): DosageForm | undefined {
+  const form = words.find((word) => FORM_WORDS[word]);
+  if (form) {
+    return FORM_WORDS[form];
+  }
+  const container = words.find((word) => CONTAINER_WORDS[word]);
+  return container ? CONTAINER_WORDS[container] : undefined;
+}
+
+/**
+ * Reads dosage form, strength, fill volume and pack size from a drug name,
+ * e.g. "Адреналин амп. 0,1% 1мл №5" gives an ampoule of 0.1 %, 1 мл, 5 per
+ * pack. The first value of each kind wins; for the strength a
+ * concentration ("100мг/5мл", "20мг/мл") is preferred to a percentage,
+ * and a percentage to a plain mass or unit count.
+ */
+export function parseDrugName(name: string): DrugNameDetails {
+  let rest = name.toLowerCase().replace(/ё/g, 'е');
+  const details: DrugNameDetails = {};
+
+  const form = findForm(rest.split(/[^а-яa-z-]+/).map((word) => word.replace(/^-+|-+$/g, '')));
+  if (form) {
+    details.form = form;
+  }
+
+  const packSize = rest.match(PACK_SIZE);
+  if (packSize) {
+    details.packSize = parseInt(packSize[1], 10);
+    rest = rest.replace(packSize[0], ' ');
+  }
+
+  const concentration = rest.match(CONCENTRATION);
+  if (concentration) {
+    details.strength = measure(concentration[1], concentration[2]);
+    details.strengthVolume = measure(concentration[3] ?? '1', concentration[4]);
+    rest = rest.replace(concentration[0], ' ');
+  } else {
+    const strength = rest.match(PERCENT) ?? rest.match(STRENGTH);
+    if (strength) {
+      details.strength = measure(strength[1], strength[2] ?? '%');
+      rest = rest.replace(strength[0], ' ');
+    }
+  }
+
+  const volume = rest.match(VOLUME);
+  if (volume) {
+    details.volume = measure(volume[1], volume[2]);
+  }
+
+  return details;
+}
+
+/** Fields needed for per-dose prices that were not found in the name */
+export function missingNameFields(details: DrugNameDetails): string[] {
+  const missing: string[] = [];
+  if (!details.form) {
+    missing.push('форма');
+  }
+  if (!details.strength) {
+    missing.push('дозировка');
+  }
+  if (details.packSize === undefined) {
+    missing.push('число в упаковке');
+  }
+  return missing;
+}
+
+/** Price of one ampoule, tablet, etc.: pack price divided by the pack size */
+export function getUnitPrice(item: DrugItem, details: DrugNameDetails): number | undefined {
+  if (!details.packSize || item.quantity <= 0) {
+    return undefined;
+  }
+  return item.amount / item.quantity / details.packSize;
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { excludeItems, hasExclusionRules } from './exclusion';
+import { DrugItem } from './types';
+
+const item = (code: number, name: string, amount: number): DrugItem => ({
+  code,
+  name,
+  unit: 'уп.',
+  quantity: 1,
+  amount,
+  ven: 'V',
+});
+
+describe('hasExclusionRules', () => {
+  it('should detect whether any rule is set', () => {
+    expect(hasExclusionRules({})).toBe(false);
+    expect(hasExclusionRules({ codes: [], names: [] })).toBe(false);
+    expect(hasExclusionRules({ codes: [408] })).toBe(true);
+    expect(hasExclusionRules({ minShare: 50 })).toBe(true);
+  });
+});
+
+describe('excludeItems', () => {
+  const items = [
+    item(408, 'Синагис 100мг/мл 0,5мл №1', 9000),
+    item(411, 'Спинраза р-р 2,4мг/мл', 600),
+    item(1, 'Адреналин амп.', 300),
+    item(2, 'Азитромицин капс.', 100),
+  ];
+
+  it('should exclude items by code', () => {
+    const result = excludeItems(items, { codes: [411] });
+
+    expect(result.kept.map((kept) => kept.code)).toEqual([408, 1, 2]);
+    expect(result.excluded).toEqual([{ ...items[1], percentOfTotal: 6, reason: 'код 411' }]);
+  });
+
+  it('should exclude items by case-insensitive name pattern', () => {
+    const result = excludeItems(items, { names: ['синагис', '^СПИН'] });
+
+    expect(result.excluded.map((excluded) => [excluded.code, excluded.reason])).toEqual([
+      [408, 'наименование соответствует «синагис»'],
+      [411, 'наименование соответствует «^СПИН»'],
+    ]);
+  });
+
+  it('should exclude items by share of the full total', () => {
+    const result = excludeItems(items, { minShare: 6 });
+
+    expect(result.excluded.map((excluded) => [excluded.code, excluded.reason])).toEqual([
+      [408, 'доля 90.00% не меньше 6%'],
+      [411, 'доля 6.00% не меньше 6%'],
+    ]);
+    expect(result.kept).toHaveLength(2);
+  });
+
+  it('should keep everything without matching rules', () => {
+    const result = excludeItems(items, { codes: [999], names: ['инсулин'] });
+
+    expect(result.kept).toEqual(items);
+    expect(result.excluded).toEqual([]);
+  });
+
+  it('should reject invalid patterns and shares', () => {
+    expect(() => excludeItems(items, { names: ['('] })).toThrow('Некорректный шаблон наименования: (');
+    expect(() => excludeItems(items, { minShare: 0 })).toThrow('Некорректный порог доли');
+    expect(() => excludeItems(items, { minShare: 120 })).toThrow('Некорректный порог доли');
+  });
+});
@@ -0,0 +1,63 @@
+import { DrugItem, ExcludedItem, ExclusionRules } from './types';
+
+export interface ExclusionResult<T extends DrugItem> {
+  kept: T[];
+  excluded: ExcludedItem[];
+}
+
+export function hasExclusionRules(rules: ExclusionRules): boolean {
+  return (rules.codes?.length ?? 0) > 0 || (rules.names?.length ?? 0) > 0 || rules.minShare !== undefined;
+}
+
+function compileNamePatterns(names: string[]): RegExp[] {
+  return names.map((name) => {
+    try {
+      return new RegExp(name, 'i');
+    } catch {
+      throw new Error(`Некорректный шаблон наименования: ${name}`);
+    }
+  });
+}
+
+/**
+ * Splits items into those kept for the adjusted analysis and the excluded
+ * outliers, e.g. a single drug taking 98% of a department's spend. Shares
+ * are computed against the full total, and the first matching rule is
+ * given as the reason.
+ */
+export function excludeItems<T extends DrugItem>(items: T[], rules: ExclusionRules): ExclusionResult<T> {
+  if (rules.minShare !== undefined && !(rules.minShare > 0 && rules.minShare <= 100)) {
+    throw new Error(`Некорректный порог доли: ${rules.minShare} (требуется от 0 до 100%)`);
+  }
+
+  const codes = new Set(rules.codes ?? []);
+  const patterns = compileNamePatterns(rules.names ?? []);
+  const totalAmount = items.reduce((sum, item) => sum + item.amount, 0);
+
+  const kept: T[] = [];
+  const excluded: ExcludedItem[] = [];
+
+  for (const item of items) {
+    const percentOfTotal = totalAmount > 0 ? (item.amount / totalAmount) * 100 : 0;
+    const pattern = patterns.find((candidate) => candidate.test(item.name));
+
+    let reason: string | undefined;
+    if (codes.has(item.code)) {
+      reason = `код ${item.code}`;
+    } else if (pattern) {
+      reason = `наименование соответствует «${pattern.source}»`;
+    } else if (rules.minShare !== undefined && percentOfTotal >= rules.minShare) {
+      reason = `доля ${percentOfTotal.toFixed(2)}% не меньше ${rules.minShare}%`;
+    }
+
+    if (reason) {
+      const { code, name, unit, quantity, amount, ven } = item;
+      excluded.push({ code, name, unit, quantity, amount, ven, percentOfTotal, reason });
+    } else {
+      kept.push(item);
+    }
+  }
+
+  excluded.sort((a, b) => b.amount - a.amount);
+  return { kept, excluded };
+}
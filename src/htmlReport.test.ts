@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeABC, getABCSummary, getVENDistributionByABC, getVENSummary } from './analyzer';
+import { generateHTMLReport, generateHeatmap, generateParetoChart, renderHTMLReport } from './htmlReport';
+import { DrugItem } from './types';
+
+const items: DrugItem[] = [
+  { code: 1, name: 'Препарат <A> & Co', unit: 'уп.', quantity: 1, amount: 8000, ven: 'V' },
+  { code: 2, name: 'Препарат Б', unit: 'фл.', quantity: 2, amount: 1500, ven: 'E' },
+  { code: 3, name: 'Препарат В', unit: 'уп.', quantity: 3, amount: 500, ven: 'N' },
+];
+
+const analyzed = analyzeABC(items);
+const render = (details = {}): string =>
+  renderHTMLReport(analyzed, getABCSummary(analyzed), getVENSummary(analyzed), getVENDistributionByABC(analyzed), 'ОПН', details);
+
+describe('renderHTMLReport', () => {
+  it('should be a self-contained page with all sections', () => {
+    const html = render();
+
+    expect(html).toContain('<title>ABC/VEN-анализ: ОПН</title>');
+    expect(html).toContain('Таблица 1. ABC-анализ');
+    expect(html).toContain('Таблица 2. VEN-анализ');
+    expect(html).toContain('Таблица 3. Матрица ABC/VEN');
+    expect(html).toContain('Таблица 4. Матрица ABC/VEN');
+    expect(html).toContain('<h2>Проблемные категории AN, BN, CN</h2>');
+    expect(html).toContain('<tr><td>CN</td><td class="num">3</td><td>Препарат В</td>');
+    expect(html).toContain('<tr><th rowspan="4">Итого</th><td>Число МНН</td><td class="num">1</td><td class="num">1</td><td class="num">1</td><td class="num">3</td></tr>');
+    expect(html).toContain('<svg');
+    expect(html).toContain('<script>');
+    expect(html).not.toMatch(/(src|href)="https?:/);
+  });
+
+  it('should escape item names and keep raw values for sorting', () => {
+    const html = render();
+
+    expect(html).toContain('<td data-value="Препарат &lt;A&gt; &amp; Co">Препарат &lt;A&gt; &amp; Co</td>');
+    expect(html).toContain('data-name="препарат &lt;a&gt; &amp; co" data-abc="A" data-ven="V"');
+    expect(html).toContain('<td class="num" data-value="8000">');
+    expect(html).toContain('Показано: <span id="shown">3</span> из 3');
+  });
+
+  it('should add an ATC column only when codes are known', () => {
+    expect(render()).not.toContain('>ATC</th>');
+
+    const withATC = analyzeABC([{ ...items[0], atc: 'J01DD04' }, ...items.slice(1)]);
+    const html = renderHTMLReport(withATC, getABCSummary(withATC), getVENSummary(withATC), getVENDistributionByABC(withATC), 'ОПН');
+    expect(html).toContain('<th data-type="text">ATC</th>');
+  });
+});
+
+describe('generateParetoChart', () => {
+  it('should draw one point per item and the group boundaries', () => {
+    const svg = generateParetoChart(analyzed, { a: 75, b: 90 });
+
+    const points = svg.match(/<polyline points="([^"]+)"/)![1].split(' ');
+    expect(points).toHaveLength(items.length + 1);
+    expect(points[points.length - 1]).toBe('608.0,16.0');
+    expect(svg).toContain('A/B 75%');
+    expect(svg).toContain('B/C 90%');
+  });
+});
+
+describe('generateHeatmap', () => {
+  it('should shade cells by their share of total spend', () => {
+    const html = generateHeatmap(getVENDistributionByABC(analyzed), 10000);
+
+    expect(html).toContain('rgba(192, 57, 43, 0.90)');
+    expect(html).toContain('<strong>100.00%</strong><small>1 поз., 80.00% всех затрат</small>');
+    expect(html).toContain('rgba(192, 57, 43, 0.08)');
+  });
+});
+
+describe('generateHTMLReport', () => {
+  const testDir = path.join(__dirname, '../test-output-html');
+  const testFile = path.join(testDir, 'ОПН_report.html');
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should write the page titled after the file', () => {
+    generateHTMLReport(analyzed, getABCSummary(analyzed), getVENSummary(analyzed), getVENDistributionByABC(analyzed), testFile);
+
+    expect(fs.readFileSync(testFile, 'utf-8')).toContain('<h1>ABC/VEN-анализ: ОПН</h1>');
+  });
+});
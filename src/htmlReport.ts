@@ -0,0 +1,330 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getABCVENMatrix, sumMatrixCells } from './analyzer';
+import { PROBLEM_ACTION_LABELS, getProblemItems, summarizeProblems } from './problems';
+import { MATRIX_INDICATORS, ReportDetails, describeABCOptions, formatAmount, formatPercent, formatTotalsReconciliation } from './reporter';
+import { ABCCategory, ABCSummary, ABCVENMatrix, AnalyzedItem, CategoryStats, VENCategory, VENSummary } from './types';
+
+const ABC_CATEGORIES: ABCCategory[] = ['A', 'B', 'C'];
+const VEN_CATEGORIES: VENCategory[] = ['V', 'E', 'N'];
+
+// Chart area of the Pareto curve inside the SVG, in px
+const CHART = { left: 48, top: 16, width: 560, height: 300 };
+
+const STYLE = `
+body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; margin: 24px; color: #222; }
+h1 { font-size: 22px; } h2 { font-size: 18px; margin-top: 32px; }
+table { border-collapse: collapse; margin: 8px 0; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; }
+th { background: #f2f2f2; }
+td.num { text-align: right; white-space: nowrap; }
+.meta { color: #555; margin: 2px 0; }
+.heatmap td { width: 130px; height: 64px; text-align: center; }
+.heatmap small { display: block; color: #333; }
+#items th { cursor: pointer; user-select: none; }
+#items th[data-order="asc"]::after { content: " ▲"; }
+#items th[data-order="desc"]::after { content: " ▼"; }
+.filters { margin: 8px 0; display: flex; gap: 12px; align-items: center; }
+svg text { font-size: 11px; fill: #333; }
+`;
+
+// Column sorting and filtering of the item table; data-value holds the raw sort key
+const SCRIPT = `
+(function () {
+  var table = document.getElementById('items');
+  var body = table.tBodies[0];
+  var rows = Array.prototype.slice.call(body.rows);
+  var search = document.getElementById('filter-text');
+  var abc = document.getElementById('filter-abc');
+  var ven = document.getElementById('filter-ven');
+  var shown = document.getElementById('shown');
+
+  function applyFilter() {
+    var text = search.value.trim().toLowerCase();
+    var count = 0;
+    rows.forEach(function (row) {
+      var visible = (!text || row.dataset.name.indexOf(text) !== -1) &&
+        (!abc.value || row.dataset.abc === abc.value) &&
+        (!ven.value || row.dataset.ven === ven.value);
+      row.hidden = !visible;
+      if (visible) count++;
+    });
+    shown.textContent = count;
+  }
+
+  Array.prototype.forEach.call(table.tHead.rows[0].cells, function (header, index) {
+    header.addEventListener('click', function () {
+      var order = header.dataset.order === 'asc' ? 'desc' : 'asc';
+      Array.prototype.forEach.call(table.tHead.rows[0].cells, function (cell) { delete cell.dataset.order; });
+      header.dataset.order = order;
+      var numeric = header.dataset.type === 'number';
+      rows.sort(function (a, b) {
+        var x = a.cells[index].dataset.value, y = b.cells[index].dataset.value;
+        var result = numeric ? Number(x) - Number(y) : x.localeCompare(y, 'ru');
+        return order === 'asc' ? result : -result;
+      });
+      rows.forEach(function (row) { body.appendChild(row); });
+    });
+  });
+
+  [search, abc, ven].forEach(function (control) { control.addEventListener('input', applyFilter); });
+})();
+`;
+
+function escapeHTML(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function summaryTable(title: string, label: string, rows: (CategoryStats & { category: string })[], totalCount: number, totalAmount: number): string {
+  const body = rows
+    .map(
+      (row) =>
+        `<tr><td>${row.category}</td><td class="num">${row.count}</td><td class="num">${formatPercent(row.percentCount)}</td><td class="num">${formatAmount(row.amount)}</td><td class="num">${formatPercent(row.percentAmount)}</td></tr>`
+    )
+    .join('\n');
+
+  return `<h2>${title}</h2>
+<table>
+<thead><tr><th>${label}</th><th>Число МНН</th><th>% МНН</th><th>Затраты, руб.</th><th>% затрат</th></tr></thead>
+<tbody>
+${body}
+<tr><th>Итого</th><td class="num">${totalCount}</td><td class="num">100.00%</td><td class="num">${formatAmount(totalAmount)}</td><td class="num">100.00%</td></tr>
+</tbody>
+</table>`;
+}
+
+/** Table 4: each ABC/VEN cell with row and column totals, as shares of all items */
+function matrixTable(matrix: ABCVENMatrix): string {
+  const body = [...ABC_CATEGORIES, undefined].flatMap((abc) => {
+    const cells = [...VEN_CATEGORIES, undefined].map((ven) => sumMatrixCells(matrix, abc, ven));
+    return MATRIX_INDICATORS.map((indicator, index) => {
+      const group = index === 0 ? `<th rowspan="${MATRIX_INDICATORS.length}">${abc ?? 'Итого'}</th>` : '';
+      return `<tr>${group}<td>${indicator.label}</td>${cells.map((cell) => `<td class="num">${indicator.value(cell)}</td>`).join('')}</tr>`;
+    });
+  });
+
+  return `<table>
+<thead><tr><th>Группа</th><th>Показатель</th>${VEN_CATEGORIES.map((ven) => `<th>${ven}</th>`).join('')}<th>Итого</th></tr></thead>
+<tbody>
+${body.join('\n')}
+</tbody>
+</table>`;
+}
+
+/** Totals of the AN, BN and CN categories, then each of their items with the suggested action */
+function problemTables(items: AnalyzedItem[]): string {
+  const problems = getProblemItems(items);
+  const summaries = summarizeProblems(problems);
+  const summaryRows = summaries.map(
+    (summary) =>
+      `<tr><td>${summary.category}</td><td>${PROBLEM_ACTION_LABELS[summary.action]}</td><td class="num">${summary.count}</td><td class="num">${formatAmount(summary.amount)}</td><td class="num">${formatPercent(summary.percentAmount)}</td></tr>`
+  );
+  const amount = summaries.reduce((sum, summary) => sum + summary.amount, 0);
+  const percent = summaries.reduce((sum, summary) => sum + summary.percentAmount, 0);
+  const itemRows = problems.map(
+    ({ item, category, action, unitPrice }) =>
+      `<tr><td>${category}</td><td class="num">${item.code}</td><td>${escapeHTML(item.name)}</td><td class="num">${formatAmount(item.amount)}</td><td class="num">${formatPercent(item.percentOfTotal)}</td><td class="num">${unitPrice !== undefined ? formatAmount(unitPrice) : '—'}</td><td>${PROBLEM_ACTION_LABELS[action]}</td></tr>`
+  );
+
+  return `<table>
+<thead><tr><th>Категория</th><th>Действие</th><th>Число МНН</th><th>Затраты, руб.</th><th>% затрат</th></tr></thead>
+<tbody>
+${summaryRows.join('\n')}
+<tr><th>Итого</th><td>потенциальная экономия</td><td class="num">${problems.length}</td><td class="num">${formatAmount(amount)}</td><td class="num">${formatPercent(percent)}</td></tr>
+</tbody>
+</table>${
+    itemRows.length > 0
+      ? `
+<table>
+<thead><tr><th>Категория</th><th>Код</th><th>Товар</th><th>Затраты, руб.</th><th>% затрат</th><th>Цена за ед., руб.</th><th>Действие</th></tr></thead>
+<tbody>
+${itemRows.join('\n')}
+</tbody>
+</table>`
+      : ''
+  }`;
+}
+
+/**
+ * Pareto (Lorenz) curve: cumulative share of spend against the share of
+ * items, largest first, with the A/B and B/C boundaries and the diagonal
+ * of an even spread.
+ */
+export function generateParetoChart(items: AnalyzedItem[], thresholds = { a: 80, b: 95 }): string {
+  const x = (percent: number): number => CHART.left + (percent / 100) * CHART.width;
+  const y = (percent: number): number => CHART.top + CHART.height - (percent / 100) * CHART.height;
+  const sorted = [...items].sort((a, b) => a.cumulativePercent - b.cumulativePercent);
+  const points = [`${x(0)},${y(0)}`, ...sorted.map((item, index) => `${x(((index + 1) / sorted.length) * 100).toFixed(1)},${y(item.cumulativePercent).toFixed(1)}`)];
+
+  const parts: string[] = [];
+  for (let tick = 0; tick <= 100; tick += 20) {
+    parts.push(`<line x1="${x(0)}" y1="${y(tick)}" x2="${x(100)}" y2="${y(tick)}" stroke="#eee"/>`);
+    parts.push(`<text x="${x(0) - 6}" y="${y(tick) + 4}" text-anchor="end">${tick}%</text>`);
+    parts.push(`<text x="${x(tick)}" y="${y(0) + 16}" text-anchor="middle">${tick}%</text>`);
+  }
+  parts.push(`<line x1="${x(0)}" y1="${y(0)}" x2="${x(100)}" y2="${y(100)}" stroke="#999" stroke-dasharray="4 4"/>`);
+  for (const [label, percent] of [['A/B', thresholds.a], ['B/C', thresholds.b]] as [string, number][]) {
+    parts.push(`<line x1="${x(0)}" y1="${y(percent)}" x2="${x(100)}" y2="${y(percent)}" stroke="#c0392b" stroke-dasharray="6 3"/>`);
+    parts.push(`<text x="${x(100) - 4}" y="${y(percent) - 4}" text-anchor="end">${label} ${percent}%</text>`);
+  }
+  parts.push(`<polyline points="${points.join(' ')}" fill="none" stroke="#2c7be5" stroke-width="2"/>`);
+  parts.push(`<line x1="${x(0)}" y1="${y(0)}" x2="${x(100)}" y2="${y(0)}" stroke="#333"/>`);
+  parts.push(`<line x1="${x(0)}" y1="${y(0)}" x2="${x(0)}" y2="${y(100)}" stroke="#333"/>`);
+  parts.push(`<text x="${x(50)}" y="${y(0) + 32}" text-anchor="middle">Доля позиций (по убыванию затрат)</text>`);
+
+  const width = CHART.left + CHART.width + 16;
+  const height = CHART.top + CHART.height + 40;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="Кривая Парето">
+${parts.join('\n')}
+</svg>`;
+}
+
+/**
+ * ABC/VEN matrix as a heatmap: each cell shows the % of its ABC group's
+ * spend, and is shaded by its share of the total spend.
+ */
+export function generateHeatmap(
+  venDistribution: Record<ABCCategory, Record<VENCategory, CategoryStats>>,
+  totalAmount: number
+): string {
+  const maxAmount = Math.max(...ABC_CATEGORIES.flatMap((abc) => VEN_CATEGORIES.map((ven) => venDistribution[abc][ven].amount)));
+  const rows = ABC_CATEGORIES.map((abc) => {
+    const cells = VEN_CATEGORIES.map((ven) => {
+      const cell = venDistribution[abc][ven];
+      const alpha = maxAmount > 0 ? 0.08 + 0.82 * (cell.amount / maxAmount) : 0;
+      const share = totalAmount > 0 ? (cell.amount / totalAmount) * 100 : 0;
+      return `<td style="background: rgba(192, 57, 43, ${alpha.toFixed(2)})" title="${formatAmount(cell.amount)} руб., ${formatPercent(share)} всех затрат"><strong>${cell.percentAmount.toFixed(2)}%</strong><small>${cell.count} поз., ${formatPercent(share)} всех затрат</small></td>`;
+    }).join('');
+    return `<tr><th>${abc}</th>${cells}</tr>`;
+  });
+
+  return `<table class="heatmap">
+<thead><tr><th>Группа</th>${VEN_CATEGORIES.map((ven) => `<th>${ven}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>`;
+}
+
+function itemTable(items: AnalyzedItem[]): string {
+  const withATC = items.some((item) => item.atc);
+  const headers: [string, 'number' | 'text'][] = [
+    ['Код', 'number'],
+    ['Товар', 'text'],
+    ['Ед.', 'text'],
+    ['Кол-во', 'number'],
+    ['Сумма', 'number'],
+    ['% от общей', 'number'],
+    ['Накопл. %', 'number'],
+    ['ABC', 'text'],
+    ['VEN', 'text'],
+    ...(withATC ? [['ATC', 'text'] as [string, 'text']] : []),
+  ];
+
+  const rows = items.map((item) => {
+    const text = (value: string): string => `<td data-value="${escapeHTML(value)}">${escapeHTML(value)}</td>`;
+    const number = (value: number, shown: string): string => `<td class="num" data-value="${value}">${shown}</td>`;
+    return `<tr data-name="${escapeHTML(item.name.toLowerCase())}" data-abc="${item.abc}" data-ven="${item.ven}">${[
+      number(item.code, String(item.code)),
+      text(item.name),
+      text(item.unit),
+      number(item.quantity, String(item.quantity)),
+      number(item.amount, formatAmount(item.amount)),
+      number(item.percentOfTotal, formatPercent(item.percentOfTotal)),
+      number(item.cumulativePercent, formatPercent(item.cumulativePercent)),
+      text(item.abc),
+      text(item.ven),
+      ...(withATC ? [text(item.atc ?? '')] : []),
+    ].join('')}</tr>`;
+  });
+
+  const options = (categories: string[]): string =>
+    ['<option value="">все</option>', ...categories.map((category) => `<option>${category}</option>`)].join('');
+
+  return `<div class="filters">
+<label>Поиск: <input id="filter-text" type="search"></label>
+<label>ABC: <select id="filter-abc">${options(ABC_CATEGORIES)}</select></label>
+<label>VEN: <select id="filter-ven">${options(VEN_CATEGORIES)}</select></label>
+<span>Показано: <span id="shown">${items.length}</span> из ${items.length}</span>
+</div>
+<table id="items">
+<thead><tr>${headers.map(([label, type]) => `<th data-type="${type}">${label}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>`;
+}
+
+/**
+ * A self-contained HTML page: Tables 1–4 with Table 3 as a heatmap, the
+ * problem categories AN, BN and CN, the Pareto curve and a sortable,
+ * filterable item table. Charts are inline SVG
+ * and the script is embedded, so the file opens without network access.
+ */
+export function renderHTMLReport(
+  items: AnalyzedItem[],
+  summary: ABCSummary[],
+  venSummary: VENSummary[],
+  venDistribution: Record<ABCCategory, Record<VENCategory, CategoryStats>>,
+  title: string,
+  details: ReportDetails = {}
+): string {
+  const totalAmount = items.reduce((sum, item) => sum + item.amount, 0);
+  const totalCount = items.length;
+
+  const meta = [
+    `Всего позиций: ${totalCount}`,
+    `Общая сумма: ${formatAmount(totalAmount)} руб.`,
+    details.innLevel
+      ? `Уровень анализа: МНН (${totalCount} МНН из ${details.innLevel.itemCount} торговых позиций)`
+      : 'Уровень анализа: торговые позиции',
+    ...(details.abcOptions ? [describeABCOptions(details.abcOptions)] : []),
+    ...(details.totals ? formatTotalsReconciliation(details.totals).split('\n') : []),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>ABC/VEN-анализ: ${escapeHTML(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>ABC/VEN-анализ: ${escapeHTML(title)}</h1>
+${meta.map((line) => `<p class="meta">${escapeHTML(line)}</p>`).join('\n')}
+${summaryTable('Таблица 1. ABC-анализ', 'Группа', summary, totalCount, totalAmount)}
+${summaryTable('Таблица 2. VEN-анализ', 'Категория', venSummary, totalCount, totalAmount)}
+<h2>Таблица 3. Матрица ABC/VEN (% затрат внутри группы)</h2>
+${generateHeatmap(venDistribution, totalAmount)}
+<h2>Таблица 4. Матрица ABC/VEN (% от общего числа МНН и общих затрат)</h2>
+${matrixTable(getABCVENMatrix(items))}
+<h2>Проблемные категории AN, BN, CN</h2>
+${problemTables(items)}
+<h2>Кривая Парето</h2>
+${generateParetoChart(items, details.abcOptions?.thresholds)}
+<h2>Позиции</h2>
+${itemTable(items)}
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+export function generateHTMLReport(
+  items: AnalyzedItem[],
+  summary: ABCSummary[],
+  venSummary: VENSummary[],
+  venDistribution: Record<ABCCategory, Record<VENCategory, CategoryStats>>,
+  outputPath: string,
+  details: ReportDetails = {}
+): void {
+  const title = path.basename(outputPath, '.html').replace(/_report$/, '');
+  const content = renderHTMLReport(items, summary, venSummary, venDistribution, title, details);
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
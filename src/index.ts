@@ -1,45 +1,178 @@
 import * as path from 'path';
-import { parseCSV } from './parser';
+import { parseArgs } from 'util';
+import { parseFileWithDiagnostics } from './parser';
+import { DEFAULT_MERGE_KEY, MERGE_KEYS, findCodeConflicts, getDepartmentTotals, isMergedItem, mergeDepartments } from './merge';
+import { excludeItems, hasExclusionRules } from './exclusion';
+import { loadVENDictionary } from './venDictionary';
+import { ANALYSIS_LEVELS, assignINN, groupByINN, loadINNDictionary } from './inn';
+import { ATC_LEVELS, assignATC, loadATCMapping } from './atc';
+import { calculateDDD, loadDDDReference, summarizeDDD } from './ddd';
+import { getProblemItems } from './problems';
+import { generateHTMLReport } from './htmlReport';
+import { generateXLSXReport } from './xlsxReport';
+import { generateMarkdownReport, generatePDFReport } from './markdownReport';
+import { createJSONReport, generateJSONReport } from './jsonReport';
 import {
+  ABC_STRATEGIES,
+  DEFAULT_TOTALS_TOLERANCE,
   analyzeABC,
+  parseThresholds,
+  reconcileTotals,
+  resolveABCOptions,
   getABCSummary,
   getVENSummary,
   getVENDistributionByABC,
+  getABCVENMatrix,
+  getATCSummary,
 } from './analyzer';
 import {
   generateCSVReport,
   generateTextReport,
   generateConsoleSummary,
+  generateDiagnosticsReport,
+  generateDepartmentReport,
+  generateVENConflictsReport,
+  generateINNReport,
+  generateNameReport,
+  generateATCReport,
+  generateDDDReport,
+  generateProblemReport,
+  formatNameParsing,
+  formatDiagnosticsSummary,
+  formatVENConflicts,
+  formatCodeConflicts,
+  formatTotalsReconciliation,
   formatAmount,
+  ReportDetails,
 } from './reporter';
+import { CSV_ENCODINGS, resolveDelimiter, resolveEncoding } from './csvFormat';
+import { NUMBER_LOCALES } from './numbers';
+import { ParseOptions } from './parser';
+import {
+  ABCBoundaryStrategy,
+  ABCOptions,
+  AnalysisLevel,
+  AnalyzedItem,
+  ATCLevel,
+  ATCMappingEntry,
+  CSVFormat,
+  DDDReferenceEntry,
+  DepartmentItems,
+  DrugItem,
+  ExclusionRules,
+  INNAssignment,
+  INNDictionaryEntry,
+  MergedItem,
+  MergeKey,
+  NumberLocale,
+  ParseResult,
+  ReportInputFile,
+  TotalsReconciliation,
+} from './types';
+
+const DEFAULT_INN_DICTIONARY_PATH = path.join(__dirname, '..', 'assets', 'inn-dictionary.json');
 
 function printUsage(): void {
-  console.log('Использование: npx tsx src/index.ts <путь_к_csv_файлу>');
+  console.log('Использование: npx tsx src/index.ts <путь_к_файлу.csv|.xlsx|.ods> [параметры]');
+  console.log('               npx tsx src/index.ts --merge <файл1> <файл2> ... [параметры]');
+  console.log('');
+  console.log('Параметры:');
+  console.log('  --thresholds <A,B>   границы групп A и B в % (по умолчанию 80,95)');
+  console.log(`  --strategy <правило> отнесение позиции на границе: ${ABC_STRATEGIES.join(', ')} (по умолчанию before)`);
+  console.log('  --strict             завершить с ошибкой, если отклонена строка данных или не сходится итог «Всего:»');
+  console.log(`  --tolerance <число>  допустимое расхождение с итогом «Всего:» (по умолчанию ${DEFAULT_TOTALS_TOLERANCE})`);
+  console.log(`  --number-locale <формат> формат чисел: ${NUMBER_LOCALES.join(', ')} (по умолчанию определяется по файлу)`);
+  console.log(`  --encoding <кодировка> кодировка CSV: ${CSV_ENCODINGS.join(', ')} (по умолчанию определяется по файлу)`);
+  console.log('  --delimiter <символ>  разделитель CSV: ",", ";" или tab (по умолчанию определяется по файлу)');
+  console.log('  --merge              объединить файлы отделений в одну сводную выборку');
+  console.log(`  --merge-key <ключ>   сопоставление позиций при объединении: ${MERGE_KEYS.join(', ')} (по умолчанию ${DEFAULT_MERGE_KEY})`);
+  console.log('  --name <имя>         имя выходных файлов при объединении (по умолчанию сводная)');
+  console.log('  --exclude-code <коды> исключить позиции с указанными кодами (через запятую)');
+  console.log('  --exclude-name <шаблон> исключить позиции, наименование которых содержит шаблон (регулярное выражение)');
+  console.log('  --exclude-share <%>  исключить позиции с долей затрат не меньше указанной');
+  console.log('  --ven-dictionary <файл> справочник VEN (CSV или книга): заполняет и проверяет категории VEN');
+  console.log(`  --level <уровень>    уровень анализа: ${ANALYSIS_LEVELS.join(', ')} (по умолчанию item — строки файла)`);
+  console.log('  --inn-dictionary <файл> справочник МНН для --level inn (по умолчанию assets/inn-dictionary.json)');
+  console.log('  --parse-names        разобрать форму, дозировку и число в упаковке из наименований');
+  console.log('  --atc-map <файл>     коды ATC позиций (CSV или XLSX: колонка ATC и код или наименование)');
+  console.log(`  --atc-level <уровень> уровень группировки по ATC: ${ATC_LEVELS.join(', ')} (по умолчанию 2)`);
+  console.log('  --ddd <файл>         справочник DDD (CSV или XLSX: ATC, DDD, единица, путь введения)');
+  console.log('  --bed-days <число>   число койко-дней за период для DDD на 100 койко-дней');
+  console.log('  --html               сохранить также HTML-отчёт с графиками и таблицей позиций');
+  console.log('  --xlsx               сохранить также отчёт в книге Excel');
+  console.log('  --md                 сохранить также отчёт в Markdown');
+  console.log('  --pdf                сохранить также отчёт в PDF (собирается из Markdown)');
+  console.log('  --json               сохранить также результат в JSON (схема schema/report-v1.schema.json)');
   console.log('');
   console.log('Пример:');
   console.log('  npx tsx src/index.ts assets/ОПН.csv');
-  console.log('  npm run analyze -- assets/другой_файл.csv');
+  console.log('  npx tsx src/index.ts assets/эндо.xlsx');
+  console.log('  npm run analyze -- assets/другой_файл.csv --thresholds 75,95 --strategy nearest');
+  console.log('  npm run analyze -- --merge assets/ОПН.csv assets/эндо.csv');
+  console.log('  npm run analyze -- assets/ОПН.csv --exclude-name синагис');
+  console.log('  npm run analyze -- assets/ОПН.csv --ven-dictionary справочник_VEN.csv');
+  console.log('  npm run analyze -- assets/реанимация.csv --level inn');
 }
 
-function main(): void {
-  const args = process.argv.slice(2);
+function describeCSVFormat(format: CSVFormat): string {
+  const delimiter = format.delimiter === '\t' ? 'табуляция' : `«${format.delimiter}»`;
+  return `Кодировка: ${format.encoding}${format.bom ? ' (BOM)' : ''}, разделитель: ${delimiter}`;
+}
 
-  if (args.length === 0) {
-    console.error('Ошибка: не указан входной файл\n');
-    printUsage();
-    process.exit(1);
-  }
+interface LoadOptions {
+  parseOptions: ParseOptions;
+  strict: boolean;
+  tolerance: number;
+  outputDir: string;
+}
+
+interface LoadedFile {
+  items: DrugItem[];
+  totals?: TotalsReconciliation;
+  /** The file as described in the JSON report */
+  source: ReportInputFile;
+}
 
-  const inputPath = path.resolve(args[0]);
+/** Parses one input file, reporting its format, diagnostics and totals check */
+function loadFile(inputPath: string, options: LoadOptions): LoadedFile {
   const inputFileName = path.basename(inputPath, path.extname(inputPath));
-  const outputDir = path.resolve(__dirname, '../output');
-  const csvOutputPath = path.join(outputDir, `${inputFileName}_abc_ven.csv`);
-  const textOutputPath = path.join(outputDir, `${inputFileName}_report.txt`);
+  const diagnosticsOutputPath = path.join(options.outputDir, `${inputFileName}_diagnostics.csv`);
+  const conflictsOutputPath = path.join(options.outputDir, `${inputFileName}_ven_conflicts.csv`);
 
   console.log(`Входной файл: ${inputPath}`);
   console.log('Загрузка данных...');
 
-  const items = parseCSV(inputPath);
+  let result: ParseResult;
+  try {
+    result = parseFileWithDiagnostics(inputPath, options.parseOptions);
+  } catch (error) {
+    console.error(`Ошибка: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  const { items, diagnostics, declaredTotals, numberLocale, csvFormat, venConflicts } = result;
+  if (csvFormat) {
+    console.log(describeCSVFormat(csvFormat));
+  }
+  console.log(`Формат чисел: ${numberLocale}${options.parseOptions.numberLocale ? '' : ' (определён по файлу)'}`);
+
+  generateDiagnosticsReport(diagnostics, diagnosticsOutputPath);
+  if (diagnostics.length > 0) {
+    console.log(formatDiagnosticsSummary(diagnostics));
+    console.log(`Диагностика сохранена: ${diagnosticsOutputPath}`);
+  }
+
+  if (venConflicts) {
+    generateVENConflictsReport(venConflicts, conflictsOutputPath);
+    console.log(formatVENConflicts(venConflicts));
+    if (venConflicts.length > 0) {
+      console.log(`Расхождения со справочником VEN сохранены: ${conflictsOutputPath}`);
+    }
+  }
+
+  if (options.strict && diagnostics.some((d) => d.severity === 'error')) {
+    console.error('Ошибка: в режиме --strict отклонённые строки данных недопустимы');
+    process.exit(1);
+  }
 
   if (items.length === 0) {
     console.error('Ошибка: не удалось загрузить данные из файла');
@@ -51,26 +184,384 @@ function main(): void {
   const totalAmount = items.reduce((sum, item) => sum + item.amount, 0);
   console.log(`Общая сумма: ${formatAmount(totalAmount)} руб.`);
 
+  const source: ReportInputFile = {
+    file: path.basename(inputPath),
+    itemCount: items.length,
+    rejectedRows: diagnostics.filter((d) => d.severity === 'error').length,
+    warnings: diagnostics.filter((d) => d.severity === 'warning').length,
+  };
+  if (numberLocale) {
+    source.numberLocale = numberLocale;
+  }
+  if (csvFormat) {
+    source.csvFormat = csvFormat;
+  }
+
+  if (!declaredTotals) {
+    return { items, source };
+  }
+
+  const totals = reconcileTotals(items, declaredTotals, options.tolerance);
+  console.log(formatTotalsReconciliation(totals));
+
+  if (options.strict && !totals.matches) {
+    console.error('Ошибка: в режиме --strict расхождение с итогом «Всего:» недопустимо');
+    process.exit(1);
+  }
+  source.totals = totals;
+  return { items, totals, source };
+}
+
+function parseCommandLine() {
+  return parseArgs({
+    allowPositionals: true,
+    options: {
+      thresholds: { type: 'string' },
+      strategy: { type: 'string' },
+      strict: { type: 'boolean' },
+      tolerance: { type: 'string' },
+      'number-locale': { type: 'string' },
+      encoding: { type: 'string' },
+      delimiter: { type: 'string' },
+      merge: { type: 'boolean' },
+      'merge-key': { type: 'string' },
+      name: { type: 'string' },
+      'exclude-code': { type: 'string', multiple: true },
+      'exclude-name': { type: 'string', multiple: true },
+      'exclude-share': { type: 'string' },
+      'ven-dictionary': { type: 'string' },
+      level: { type: 'string' },
+      'inn-dictionary': { type: 'string' },
+      'parse-names': { type: 'boolean' },
+      'atc-map': { type: 'string' },
+      'atc-level': { type: 'string' },
+      ddd: { type: 'string' },
+      'bed-days': { type: 'string' },
+      html: { type: 'boolean' },
+      xlsx: { type: 'boolean' },
+      md: { type: 'boolean' },
+      pdf: { type: 'boolean' },
+      json: { type: 'boolean' },
+    },
+  });
+}
+
+function main(): void {
+  let args: ReturnType<typeof parseCommandLine>;
+  try {
+    args = parseCommandLine();
+  } catch (error) {
+    console.error(`Ошибка: ${(error as Error).message}\n`);
+    printUsage();
+    process.exit(1);
+  }
+  const { values, positionals } = args;
+
+  if (positionals.length === 0) {
+    console.error('Ошибка: не указан входной файл\n');
+    printUsage();
+    process.exit(1);
+  }
+
+  let abcOptions: ABCOptions;
+  let tolerance = DEFAULT_TOTALS_TOLERANCE;
+  const parseOptions: ParseOptions = {};
+  const exclusionRules: ExclusionRules = {};
+  const level = (values.level ?? 'item') as AnalysisLevel;
+  let innDictionary: INNDictionaryEntry[] = [];
+  let atcMapping: ATCMappingEntry[] = [];
+  let atcLevel: ATCLevel = 2;
+  let dddReference: DDDReferenceEntry[] | undefined;
+  let bedDays: number | undefined;
+  try {
+    abcOptions = resolveABCOptions({
+      thresholds: values.thresholds ? parseThresholds(values.thresholds) : undefined,
+      strategy: values.strategy as ABCBoundaryStrategy | undefined,
+    });
+    if (values.tolerance !== undefined) {
+      tolerance = parseFloat(values.tolerance.replace(',', '.'));
+      if (isNaN(tolerance) || tolerance < 0) {
+        throw new Error(`Некорректное значение --tolerance: ${values.tolerance}`);
+      }
+    }
+    if (values['number-locale'] !== undefined && !NUMBER_LOCALES.includes(values['number-locale'] as NumberLocale)) {
+      throw new Error(`Некорректное значение --number-locale: ${values['number-locale']}`);
+    }
+    parseOptions.numberLocale = values['number-locale'] as NumberLocale | undefined;
+    if (values.encoding !== undefined) {
+      parseOptions.encoding = resolveEncoding(values.encoding);
+    }
+    if (values.delimiter !== undefined) {
+      parseOptions.delimiter = resolveDelimiter(values.delimiter);
+    }
+    if (values['merge-key'] !== undefined && !MERGE_KEYS.includes(values['merge-key'] as MergeKey)) {
+      throw new Error(`Некорректное значение --merge-key: ${values['merge-key']}`);
+    }
+    if (values['exclude-code']) {
+      exclusionRules.codes = values['exclude-code'].flatMap((value) => value.split(',')).map((code) => {
+        const parsed = Number(code.trim());
+        if (!Number.isInteger(parsed)) {
+          throw new Error(`Некорректный код в --exclude-code: ${code}`);
+        }
+        return parsed;
+      });
+    }
+    if (values['exclude-name']) {
+      exclusionRules.names = values['exclude-name'];
+    }
+    if (values['exclude-share'] !== undefined) {
+      exclusionRules.minShare = parseFloat(values['exclude-share'].replace(',', '.'));
+      if (isNaN(exclusionRules.minShare)) {
+        throw new Error(`Некорректное значение --exclude-share: ${values['exclude-share']}`);
+      }
+    }
+    if (values['ven-dictionary'] !== undefined) {
+      parseOptions.venDictionary = loadVENDictionary(values['ven-dictionary']);
+      console.log(`Справочник VEN загружен, записей: ${parseOptions.venDictionary.length}`);
+    }
+    if (!ANALYSIS_LEVELS.includes(level)) {
+      throw new Error(`Некорректное значение --level: ${values.level}`);
+    }
+    if (values['inn-dictionary'] !== undefined && level !== 'inn') {
+      throw new Error('--inn-dictionary используется только с --level inn');
+    }
+    if (level === 'inn') {
+      innDictionary = loadINNDictionary(values['inn-dictionary'] ?? DEFAULT_INN_DICTIONARY_PATH);
+    }
+    if (values['atc-level'] !== undefined) {
+      atcLevel = Number(values['atc-level']) as ATCLevel;
+      if (!ATC_LEVELS.includes(atcLevel)) {
+        throw new Error(`Некорректное значение --atc-level: ${values['atc-level']}`);
+      }
+    }
+    if (values['atc-map'] !== undefined) {
+      atcMapping = loadATCMapping(values['atc-map']);
+      console.log(`Файл кодов ATC загружен, записей: ${atcMapping.length}`);
+    }
+    if (values['bed-days'] !== undefined) {
+      if (values.ddd === undefined) {
+        throw new Error('--bed-days используется только с --ddd');
+      }
+      bedDays = parseFloat(values['bed-days'].replace(',', '.'));
+      if (!(bedDays > 0)) {
+        throw new Error(`Некорректное значение --bed-days: ${values['bed-days']}`);
+      }
+    }
+    if (values.ddd !== undefined) {
+      dddReference = loadDDDReference(values.ddd);
+      console.log(`Справочник DDD загружен, записей: ${dddReference.length}`);
+    }
+    if (!values.merge && positionals.length > 1) {
+      throw new Error('указано несколько входных файлов; для объединения используйте --merge');
+    }
+  } catch (error) {
+    console.error(`Ошибка: ${(error as Error).message}\n`);
+    printUsage();
+    process.exit(1);
+  }
+
+  const outputDir = path.resolve(__dirname, '../output');
+  const loadOptions: LoadOptions = { parseOptions, strict: values.strict ?? false, tolerance, outputDir };
+  const details: ReportDetails = { abcOptions };
+  let items: DrugItem[];
+  let outputName: string;
+  let departments: DepartmentItems[] = [];
+  let mergedItems: MergedItem[] = [];
+  const inputFiles: ReportInputFile[] = [];
+
+  if (values.merge) {
+    departments = positionals.map((input, index) => {
+      const inputPath = path.resolve(input);
+      if (index > 0) {
+        console.log('');
+      }
+      const loaded = loadFile(inputPath, loadOptions);
+      inputFiles.push(loaded.source);
+      return { department: path.basename(inputPath, path.extname(inputPath)), items: loaded.items };
+    });
+
+    const mergeKey = (values['merge-key'] as MergeKey | undefined) ?? DEFAULT_MERGE_KEY;
+    if (mergeKey === 'code') {
+      const conflicts = findCodeConflicts(departments);
+      if (conflicts.length > 0) {
+        console.log(`\n${formatCodeConflicts(conflicts)}`);
+      }
+    }
+    mergedItems = mergeDepartments(departments, mergeKey);
+    items = mergedItems;
+    outputName = values.name ?? 'сводная';
+    details.departments = getDepartmentTotals(mergedItems, departments.map((d) => d.department));
+
+    console.log(`\nОбъединено файлов: ${departments.length}, позиций после объединения: ${items.length}`);
+  } else {
+    const inputPath = path.resolve(positionals[0]);
+    const loaded = loadFile(inputPath, loadOptions);
+    inputFiles.push(loaded.source);
+    items = loaded.items;
+    outputName = path.basename(inputPath, path.extname(inputPath));
+    if (loaded.totals) {
+      details.totals = loaded.totals;
+    }
+  }
+
+  // Codes read from the files are kept; the mapping fills in the rest
+  items = assignATC(items, atcMapping);
+
+  if (values['parse-names']) {
+    const namesOutputPath = path.join(outputDir, `${outputName}_names.csv`);
+    generateNameReport(items, namesOutputPath);
+    console.log(formatNameParsing(items));
+    console.log(`Разбор наименований сохранён: ${namesOutputPath}`);
+  }
+
+  // DDDs need the strength and pack size of trade names, so they are computed before INN grouping
+  if (dddReference) {
+    const dddOutputPath = path.join(outputDir, `${outputName}_ddd.csv`);
+    const results = calculateDDD(items, dddReference, bedDays);
+    details.ddd = { results, substances: summarizeDDD(results, bedDays), bedDays };
+    generateDDDReport(results, dddOutputPath);
+    console.log(`Потребление в DDD сохранено: ${dddOutputPath}`);
+  }
+
+  let innAssignments: INNAssignment[] = [];
+  if (level === 'inn') {
+    innAssignments = assignINN(items, innDictionary);
+    // A group keeps the code its trade items share, otherwise the mapping may name the INN
+    items = assignATC(groupByINN(innAssignments), atcMapping);
+    details.innLevel = { itemCount: innAssignments.length };
+    outputName = `${outputName}_inn`;
+    console.log(`Сгруппировано по МНН: ${innAssignments.length} торговых позиций → ${items.length} МНН`);
+  }
+
+  const totalAmount = items.reduce((sum, item) => sum + item.amount, 0);
+  const csvOutputPath = path.join(outputDir, `${outputName}_abc_ven.csv`);
+  const textOutputPath = path.join(outputDir, `${outputName}_report.txt`);
+  const departmentsOutputPath = path.join(outputDir, `${outputName}_departments.csv`);
+  const adjustedOutputPath = path.join(outputDir, `${outputName}_adjusted_abc_ven.csv`);
+  const innOutputPath = path.join(outputDir, `${outputName}_items.csv`);
+  const atcOutputPath = path.join(outputDir, `${outputName}_atc.csv`);
+  const problemsOutputPath = path.join(outputDir, `${outputName}_problems.csv`);
+  const htmlOutputPath = path.join(outputDir, `${outputName}_report.html`);
+  const xlsxOutputPath = path.join(outputDir, `${outputName}_report.xlsx`);
+  const markdownOutputPath = path.join(outputDir, `${outputName}_report.md`);
+  const pdfOutputPath = path.join(outputDir, `${outputName}_report.pdf`);
+  const jsonOutputPath = path.join(outputDir, `${outputName}_report.json`);
+
   console.log('\nВыполнение ABC-анализа...');
-  const analyzedItems = analyzeABC(items);
+  const analyzedItems = analyzeABC(items, abcOptions);
 
   const summary = getABCSummary(analyzedItems);
   const venSummary = getVENSummary(analyzedItems);
   const venDistribution = getVENDistributionByABC(analyzedItems);
+  details.matrix = getABCVENMatrix(analyzedItems);
+  details.problems = getProblemItems(analyzedItems);
+  const withATC = analyzedItems.some((item) => item.atc);
+  if (withATC) {
+    details.atc = { level: atcLevel, groups: getATCSummary(analyzedItems, atcLevel) };
+  }
+
+  let adjustedItems: AnalyzedItem[] = [];
+  if (hasExclusionRules(exclusionRules)) {
+    let exclusion;
+    try {
+      exclusion = excludeItems(items, exclusionRules);
+    } catch (error) {
+      console.error(`Ошибка: ${(error as Error).message}`);
+      process.exit(1);
+    }
+    if (exclusion.kept.length === 0) {
+      console.error('Ошибка: после исключения не осталось позиций');
+      process.exit(1);
+    }
+
+    adjustedItems = analyzeABC(exclusion.kept, abcOptions);
+    details.adjusted = {
+      excluded: exclusion.excluded,
+      summary: getABCSummary(adjustedItems),
+      venSummary: getVENSummary(adjustedItems),
+      totalAmount: exclusion.kept.reduce((sum, item) => sum + item.amount, 0),
+      totalCount: exclusion.kept.length,
+    };
+    console.log(`Исключено позиций: ${exclusion.excluded.length}`);
+  }
 
   // Generate reports
   generateCSVReport(analyzedItems, csvOutputPath);
   console.log(`\nCSV-отчёт сохранён: ${csvOutputPath}`);
 
+  if (details.adjusted) {
+    generateCSVReport(adjustedItems, adjustedOutputPath);
+    console.log(`CSV-отчёт без исключённых позиций сохранён: ${adjustedOutputPath}`);
+  }
+
+  if (level === 'inn') {
+    generateINNReport(innAssignments, innOutputPath);
+    console.log(`Торговые позиции с МНН сохранены: ${innOutputPath}`);
+  }
+
+  if (details.problems.length > 0) {
+    generateProblemReport(details.problems, problemsOutputPath);
+    console.log(`Позиции проблемных категорий AN, BN, CN сохранены: ${problemsOutputPath}`);
+  }
+
+  if (withATC) {
+    generateATCReport(
+      { 1: getATCSummary(analyzedItems, 1), 2: getATCSummary(analyzedItems, 2), 3: getATCSummary(analyzedItems, 3) },
+      atcOutputPath
+    );
+    console.log(`Затраты по группам ATC сохранены: ${atcOutputPath}`);
+  } else if (atcMapping.length > 0) {
+    console.log('Ни одной позиции не найден код ATC');
+  }
+
+  // Per-department amounts belong to trade-name items, so they are only written at item level
+  if (values.merge && level === 'item') {
+    // analyzeABC keeps the fields of its input, so at item level these are the merged items
+    generateDepartmentReport(
+      analyzedItems.filter(isMergedItem),
+      departments.map((d) => d.department),
+      departmentsOutputPath
+    );
+    console.log(`Вклад отделений сохранён: ${departmentsOutputPath}`);
+  }
+
   generateTextReport(
     analyzedItems,
     summary,
     venSummary,
     venDistribution,
-    textOutputPath
+    textOutputPath,
+    details
   );
   console.log(`Текстовый отчёт сохранён: ${textOutputPath}`);
 
+  if (values.html) {
+    generateHTMLReport(analyzedItems, summary, venSummary, venDistribution, htmlOutputPath, details);
+    console.log(`HTML-отчёт сохранён: ${htmlOutputPath}`);
+  }
+
+  if (values.xlsx) {
+    generateXLSXReport(analyzedItems, summary, venSummary, venDistribution, xlsxOutputPath, details);
+    console.log(`Отчёт Excel сохранён: ${xlsxOutputPath}`);
+  }
+
+  if (values.json) {
+    const report = createJSONReport(analyzedItems, summary, venSummary, venDistribution, {
+      files: inputFiles,
+      abcOptions,
+      level,
+      mergeKey: values.merge ? ((values['merge-key'] as MergeKey | undefined) ?? DEFAULT_MERGE_KEY) : undefined,
+    });
+    generateJSONReport(report, jsonOutputPath);
+    console.log(`JSON-отчёт сохранён: ${jsonOutputPath}`);
+  }
+
+  let markdown = '';
+  if (values.md || values.pdf) {
+    markdown = generateMarkdownReport(analyzedItems, summary, venSummary, venDistribution, markdownOutputPath, details);
+    console.log(`Отчёт Markdown сохранён: ${markdownOutputPath}`);
+  }
+
   // Console output
   console.log('\n');
   console.log(
@@ -79,7 +570,8 @@ function main(): void {
       venSummary,
       venDistribution,
       totalAmount,
-      items.length
+      items.length,
+      details
     )
   );
 
@@ -104,6 +596,16 @@ function main(): void {
   }
 
   console.log('═══════════════════════════════════════════════════════════════');
+
+  // PDF rendering starts a browser, so it runs last and reports on its own
+  if (values.pdf) {
+    generatePDFReport(markdown, pdfOutputPath)
+      .then(() => console.log(`\nPDF-отчёт сохранён: ${pdfOutputPath}`))
+      .catch((error: Error) => {
+        console.error(`\nОшибка: не удалось сформировать PDF: ${error.message}`);
+        process.exit(1);
+      });
+  }
 }
 
 main();
@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONTAINER_WORDS, FORM_WORDS } from './drugName';
+import { assignINN, extractINN, groupByINN, loadINNDictionary } from './inn';
+import { DrugItem, INNDictionaryEntry } from './types';
+
+const item = (code: number, name: string, amount: number, ven: DrugItem['ven'] = 'V', unit = 'уп.'): DrugItem => ({
+  code,
+  name,
+  unit,
+  quantity: 1,
+  amount,
+  ven,
+});
+
+describe('extractINN', () => {
+  it('should take the words before strength and dosage form', () => {
+    expect(extractINN('Натрия хлорид амп. 0,9% 10мл №10')).toBe('Натрия хлорид');
+    expect(extractINN('Азитромицин  пор. д/сусп. 100мг/5мл фл.')).toBe('Азитромицин');
+    expect(extractINN('Глюкоза 10% р-р д/инф 500мл')).toBe('Глюкоза');
+    expect(extractINN('Меропенем в/в 1г фл. №10')).toBe('Меропенем');
+    expect(extractINN('Бифидумбактерин сух.амп. 5доз №10')).toBe('Бифидумбактерин');
+    expect(extractINN('Аскорбиновая к-та амп. 5% 2мл №10')).toBe('Аскорбиновая к-та');
+  });
+
+  it('should stop at every form word that parseDrugName recognizes', () => {
+    for (const word of [...Object.keys(FORM_WORDS), ...Object.keys(CONTAINER_WORDS)]) {
+      expect(extractINN(`Препарат ${word}. 10мг`)).toBe('Препарат');
+    }
+  });
+
+  it('should prefer the substance given in parentheses', () => {
+    expect(extractINN('Бераксол (Амброксол) 7,5мг/мл 100мл')).toBe('Амброксол');
+  });
+
+  it('should keep a name without form words', () => {
+    expect(extractINN('Синагис')).toBe('Синагис');
+  });
+});
+
+describe('assignINN', () => {
+  const dictionary: INNDictionaryEntry[] = [
+    { inn: 'Эпинефрин', names: ['Адреналин'] },
+    { inn: 'Вальпроевая кислота', names: ['Депакин', 'Депакин хроно'] },
+  ];
+
+  it('should use the dictionary and fall back to the name', () => {
+    const result = assignINN(
+      [item(1, 'АДРЕНАЛИН амп. 0,1% 1мл №5', 100), item(2, 'Депакин хроносфера гран. 100мг', 50), item(3, 'Ибупрофен таб. 400мг', 10)],
+      dictionary
+    );
+
+    expect(result.map(({ inn, source }) => [inn, source])).toEqual([
+      ['Эпинефрин', 'dictionary'],
+      ['Вальпроевая кислота', 'dictionary'],
+      ['Ибупрофен', 'name'],
+    ]);
+  });
+
+  it('should match dictionary names only up to a word boundary', () => {
+    const result = assignINN([item(1, 'Адреналиново масло', 1)], dictionary);
+
+    expect(result[0].source).toBe('name');
+  });
+});
+
+describe('groupByINN', () => {
+  it('should sum trade items of one INN and number groups by name', () => {
+    const items = [
+      item(10, 'Нурофен сусп. 100мг/5мл', 40, 'E', 'фл.'),
+      item(11, 'Адреналин амп.', 5),
+      item(12, 'Ибупрофен таб. 400мг №50', 60, 'N'),
+    ];
+
+    const result = groupByINN(assignINN(items, [{ inn: 'Ибупрофен', names: ['Нурофен'] }]));
+
+    expect(result).toEqual([
+      { code: 1, name: 'Адреналин', unit: 'уп.', quantity: 1, amount: 5, ven: 'V', tradeItems: [items[1]] },
+      { code: 2, name: 'Ибупрофен', unit: '', quantity: 2, amount: 100, ven: 'E', tradeItems: [items[0], items[2]] },
+    ]);
+  });
+
+  it('should keep an ATC code only when all trade items share it', () => {
+    const items = [
+      { ...item(1, 'Ибупрофен таб.', 10), atc: 'M01AE01' },
+      { ...item(2, 'Нурофен сусп.', 20), atc: 'M01AE01' },
+      { ...item(3, 'Амикацин фл.', 30), atc: 'J01GB06' },
+      item(4, 'Амикацин р-р', 40),
+    ];
+
+    const result = groupByINN(assignINN(items, [{ inn: 'Ибупрофен', names: ['Нурофен'] }]));
+
+    expect(result.map((group) => [group.name, group.atc])).toEqual([
+      ['Амикацин', undefined],
+      ['Ибупрофен', 'M01AE01'],
+    ]);
+  });
+});
+
+describe('loadINNDictionary', () => {
+  const testDir = path.join(__dirname, '../test-data-inn');
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  const createFile = (content: unknown): string => {
+    fs.mkdirSync(testDir, { recursive: true });
+    const filePath = path.join(testDir, 'inn.json');
+    fs.writeFileSync(filePath, JSON.stringify(content), 'utf-8');
+    return filePath;
+  };
+
+  it('should load groups', () => {
+    const groups = [{ inn: 'Эпинефрин', names: ['Адреналин'] }];
+
+    expect(loadINNDictionary(createFile({ groups }))).toEqual(groups);
+  });
+
+  it('should reject malformed dictionaries', () => {
+    expect(() => loadINNDictionary(createFile({}))).toThrow('"groups"');
+    expect(() => loadINNDictionary(createFile({ groups: [{ names: ['Адреналин'] }] }))).toThrow('groups[0]: не указано МНН');
+    expect(() => loadINNDictionary(createFile({ groups: [{ inn: 'Эпинефрин', names: [] }] }))).toThrow('names');
+  });
+
+  it('should load the bundled dictionary', () => {
+    const dictionary = loadINNDictionary(path.join(__dirname, '../assets/inn-dictionary.json'));
+
+    expect(dictionary.find((entry) => entry.names.includes('Синагис'))?.inn).toBe('Паливизумаб');
+  });
+});
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONTAINER_WORDS, FORM_WORDS } from './drugName';
+import { normalizeDrugName } from './merge';
+import { AnalysisLevel, DrugItem, INNAssignment, INNDictionaryEntry, INNItem, VENCategory } from './types';
+
+export const ANALYSIS_LEVELS: AnalysisLevel[] = ['item', 'inn'];
+
+// Words that start the dosage form part of a name ("амп.", "р-р", "сух.амп."): the forms
+// parseDrugName recognizes plus packaging and qualifiers that it does not classify
+const FORM_STEMS = new Set([
+  ...Object.keys(FORM_WORDS),
+  ...Object.keys(CONTAINER_WORDS),
+  'гл', 'др', 'драже', 'жидкость', 'инф', 'клизма', 'линим', 'пак', 'пакеты', 'сух', 'туба', 'уп', 'уш', 'шприц',
+  'шприц-ампула', 'шпр',
+]);
+
+// V is the most critical category; a group gets the most critical category of its items
+const VEN_PRIORITY: VENCategory[] = ['V', 'E', 'N'];
+
+/**
+ * Loads the INN dictionary: `{ "groups": [{ "inn": "Эпинефрин", "names": ["Адреналин"] }] }`.
+ */
+export function loadINNDictionary(filePath: string): INNDictionaryEntry[] {
+  const absolutePath = path.resolve(filePath);
+  const data = JSON.parse(fs.readFileSync(absolutePath, 'utf-8'));
+
+  if (!data || !Array.isArray(data.groups)) {
+    throw new Error(`${absolutePath}: ожидается объект с массивом "groups"`);
+  }
+
+  return data.groups.map((group: unknown, index: number) => {
+    const context = `${absolutePath}: groups[${index}]`;
+    const entry = group as INNDictionaryEntry;
+    if (typeof entry !== 'object' || entry === null || typeof entry.inn !== 'string' || !entry.inn) {
+      throw new Error(`${context}: не указано МНН (inn)`);
+    }
+    if (!Array.isArray(entry.names) || entry.names.length === 0 || entry.names.some((name) => typeof name !== 'string' || !name)) {
+      throw new Error(`${context}: не указаны торговые наименования (names)`);
+    }
+    return { inn: entry.inn, names: entry.names };
+  });
+}
+
+function matchForm(name: string): string {
+  return name.toLowerCase().replace(/ё/g, 'е').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Guesses the INN from the name: the substance given in parentheses after
+ * the trade name ("Бераксол (Амброксол) 7,5мг/мл"), otherwise the leading
+ * words before the strength or dosage form ("Натрия хлорид амп. 0,9%").
+ */
+export function extractINN(name: string): string {
+  const parenthesized = name.match(/^\s*[^\s(]+\s*\(([^)\d]+)\)/);
+  if (parenthesized) {
+    return parenthesized[1].trim();
+  }
+
+  const words = name.trim().split(/\s+/);
+  const base: string[] = [];
+  for (const word of words) {
+    const lower = word.toLowerCase();
+    const stem = lower.split('.')[0];
+    // "д/инф", "в/в", "г\\хл" and "для" start the route or form, not the substance
+    if (base.length > 0 && (/[\d%№(/\\]/.test(word) || FORM_STEMS.has(stem) || lower === 'для')) {
+      break;
+    }
+    base.push(word);
+  }
+  return base.join(' ');
+}
+
+/**
+ * Assigns an INN to every item. A dictionary name matches the start of an
+ * item name up to a word boundary, ignoring case, "ё" and extra spaces;
+ * the longest matching name wins. Other items get the INN from their name.
+ */
+export function assignINN(items: DrugItem[], dictionary: INNDictionaryEntry[] = []): INNAssignment[] {
+  const names = dictionary
+    .flatMap((entry) => entry.names.map((name) => ({ name: matchForm(name), inn: entry.inn })))
+    .sort((a, b) => b.name.length - a.name.length);
+
+  return items.map((item) => {
+    const itemName = matchForm(item.name);
+    const match = names.find(
+      ({ name }) => itemName.startsWith(name) && !/[a-zа-я]/.test(itemName.charAt(name.length))
+    );
+    return match
+      ? { item, inn: match.inn, source: 'dictionary' }
+      : { item, inn: extractINN(item.name), source: 'name' };
+  });
+}
+
+/**
+ * Sums the items of each INN, so ABC can be run at INN level. Groups are
+ * named after the INN and numbered 1..N in name order. The unit is kept
+ * only when all items share it, and the group gets the most critical VEN
+ * category of its items (V before E before N).
+ */
+export function groupByINN(assignments: INNAssignment[]): INNItem[] {
+  const groups = new Map<string, INNItem>();
+
+  for (const { item, inn } of assignments) {
+    const id = normalizeDrugName(inn);
+    let group = groups.get(id);
+    if (!group) {
+      group = { ...item, name: inn, quantity: 0, amount: 0, tradeItems: [] };
+      groups.set(id, group);
+    }
+    group.quantity += item.quantity;
+    group.amount += item.amount;
+    if (group.unit !== item.unit) {
+      group.unit = '';
+    }
+    if (group.atc !== item.atc) {
+      delete group.atc;
+    }
+    if (VEN_PRIORITY.indexOf(item.ven) < VEN_PRIORITY.indexOf(group.ven)) {
+      group.ven = item.ven;
+    }
+    group.tradeItems.push(item);
+  }
+
+  const result = [...groups.values()].sort((a, b) => a.name.localeCompare(b.name, 'ru'));
+  result.forEach((group, index) => {
+    group.code = index + 1;
+  });
+  return result;
+}
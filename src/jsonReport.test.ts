@@ -0,0 +1,177 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeABC, getABCSummary, getVENDistributionByABC, getVENSummary, resolveABCOptions } from './analyzer';
+import { JSON_REPORT_VERSION, createJSONReport, generateJSONReport } from './jsonReport';
+import { mergeDepartments } from './merge';
+import { DrugItem, JSONReport, ReportInputFile } from './types';
+
+const schema = JSON.parse(fs.readFileSync(path.join(__dirname, '../schema/report-v1.schema.json'), 'utf-8'));
+
+type Schema = Record<string, unknown>;
+
+/**
+ * Checks a value against the subset of JSON Schema the report schema uses:
+ * $ref, type, enum, pattern, required, properties, additionalProperties
+ * and items. Returns the paths that do not match.
+ */
+function validate(value: unknown, node: Schema, at = '$'): string[] {
+  if (typeof node.$ref === 'string') {
+    const target = node.$ref.replace('#/$defs/', '');
+    return validate(value, (schema.$defs as Record<string, Schema>)[target], at);
+  }
+  if (Array.isArray(node.enum)) {
+    return node.enum.includes(value) ? [] : [`${at}: ${JSON.stringify(value)} не из ${JSON.stringify(node.enum)}`];
+  }
+
+  const types: Record<string, (v: unknown) => boolean> = {
+    object: (v) => typeof v === 'object' && v !== null && !Array.isArray(v),
+    array: Array.isArray,
+    string: (v) => typeof v === 'string',
+    number: (v) => typeof v === 'number' && isFinite(v),
+    integer: Number.isInteger,
+    boolean: (v) => typeof v === 'boolean',
+  };
+  if (typeof node.type === 'string' && !types[node.type](value)) {
+    return [`${at}: ожидался ${node.type}`];
+  }
+  if (typeof node.pattern === 'string' && !new RegExp(node.pattern).test(value as string)) {
+    return [`${at}: не соответствует ${node.pattern}`];
+  }
+
+  const errors: string[] = [];
+  if (node.type === 'array') {
+    (value as unknown[]).forEach((element, index) => errors.push(...validate(element, node.items as Schema, `${at}[${index}]`)));
+  }
+  if (node.type === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = (node.properties ?? {}) as Record<string, Schema>;
+    for (const key of (node.required ?? []) as string[]) {
+      if (!(key in object)) {
+        errors.push(`${at}.${key}: отсутствует`);
+      }
+    }
+    for (const [key, property] of Object.entries(object)) {
+      if (properties[key]) {
+        errors.push(...validate(property, properties[key], `${at}.${key}`));
+      } else if (node.additionalProperties === false) {
+        errors.push(`${at}.${key}: не описано в схеме`);
+      }
+    }
+  }
+  return errors;
+}
+
+const items: DrugItem[] = [
+  { code: 1, name: 'Препарат А', unit: 'уп.', quantity: 1, amount: 7000, ven: 'V', atc: 'J01DD04' },
+  { code: 2, name: 'Препарат Б', unit: 'уп.', quantity: 2, amount: 1500, ven: 'N' },
+  { code: 3, name: 'Препарат В', unit: 'фл.', quantity: 3, amount: 1000, ven: 'E' },
+  { code: 4, name: 'Препарат Г', unit: 'уп.', quantity: 4, amount: 500, ven: 'N' },
+];
+
+const file: ReportInputFile = {
+  file: 'ОПН.csv',
+  itemCount: 4,
+  rejectedRows: 1,
+  warnings: 0,
+  numberLocale: 'ru',
+  csvFormat: { encoding: 'windows-1251', delimiter: ';', bom: false },
+};
+
+const createReport = (analyzed = analyzeABC(items), files = [file]): JSONReport =>
+  createJSONReport(analyzed, getABCSummary(analyzed), getVENSummary(analyzed), getVENDistributionByABC(analyzed), {
+    files,
+    abcOptions: resolveABCOptions(),
+    level: 'item',
+    generatedAt: new Date('2025-12-31T12:00:00Z'),
+  });
+
+describe('createJSONReport', () => {
+  it('should carry the version, input metadata and parameters', () => {
+    const report = createReport();
+
+    expect(report.version).toBe(JSON_REPORT_VERSION);
+    expect(report.generatedAt).toBe('2025-12-31T12:00:00.000Z');
+    expect(report.input).toEqual({ files: [file], merged: false });
+    expect(report.parameters).toEqual({ abc: { thresholds: { a: 80, b: 95 }, strategy: 'before' }, level: 'item' });
+    expect(report.totals).toEqual({ count: 4, amount: 10000 });
+  });
+
+  it('should hold the items, summaries and both forms of the matrix', () => {
+    const report = createReport();
+
+    expect(report.items[0]).toEqual({
+      code: 1,
+      name: 'Препарат А',
+      unit: 'уп.',
+      quantity: 1,
+      amount: 7000,
+      ven: 'V',
+      abc: 'A',
+      percentOfTotal: 70,
+      cumulativePercent: 70,
+      atc: 'J01DD04',
+    });
+    expect(report.abcSummary.map((group) => group.count)).toEqual([2, 1, 1]);
+    expect(report.matrix.A.N.percentAmount).toBe(15);
+    expect(report.venDistribution.A.N.percentAmount).toBeCloseTo(17.65, 2);
+  });
+
+  it('should list the problem items with the potential saving', () => {
+    const { problems } = createReport();
+
+    expect(problems.items.map((problem) => [problem.category, problem.action, problem.code])).toEqual([
+      ['AN', 'review', 2],
+      ['CN', 'exclude', 4],
+    ]);
+    expect(problems.categories.map((category) => category.count)).toEqual([1, 0, 1]);
+    expect(problems.potentialSavings).toEqual({ count: 2, amount: 2000, percentAmount: 20 });
+  });
+
+  it('should match the published schema', () => {
+    expect(schema.properties.version.pattern).toBe(`^${JSON_REPORT_VERSION.split('.')[0]}\\.\\d+$`);
+    expect(validate(createReport(), schema)).toEqual([]);
+  });
+
+  it('should leave out fields of merged items that the schema does not describe', () => {
+    const merged = mergeDepartments(
+      [
+        { department: 'ОПН', items: items.slice(0, 2) },
+        { department: 'эндо', items: items.slice(2) },
+      ],
+      'code'
+    );
+    const report = createReport(analyzeABC(merged), [file, { ...file, file: 'эндо.csv' }]);
+
+    expect(validate(report, schema)).toEqual([]);
+    expect(report.items[0]).not.toHaveProperty('departments');
+  });
+
+  it('should report schema violations', () => {
+    const report = createReport() as unknown as Record<string, unknown>;
+    report.extra = 1;
+    (report.items as Record<string, unknown>[])[0].abc = 'D';
+
+    expect(validate(report, schema)).toEqual(['$.items[0].abc: "D" не из ["A","B","C"]', '$.extra: не описано в схеме']);
+  });
+});
+
+describe('generateJSONReport', () => {
+  const testDir = path.join(__dirname, '../test-output-json');
+  const testFile = path.join(testDir, 'test_report.json');
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should write the report as indented JSON', () => {
+    const report = createReport();
+    generateJSONReport(report, testFile);
+
+    const content = fs.readFileSync(testFile, 'utf-8');
+    expect(content.startsWith(`{\n  "version": "${JSON_REPORT_VERSION}",\n`)).toBe(true);
+    expect(JSON.parse(content)).toEqual(report);
+  });
+});
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getABCVENMatrix } from './analyzer';
+import { getProblemItems, summarizeProblems } from './problems';
+import {
+  ABCCategory,
+  ABCOptions,
+  ABCSummary,
+  AnalysisLevel,
+  AnalyzedItem,
+  CategoryStats,
+  JSONProblemItem,
+  JSONReport,
+  MergeKey,
+  ProblemItem,
+  ReportInputFile,
+  VENCategory,
+  VENSummary,
+} from './types';
+
+/** Version of the JSON report layout; the major part is the schema file's */
+export const JSON_REPORT_VERSION = '1.1';
+
+export interface JSONReportContext {
+  files: ReportInputFile[];
+  abcOptions: ABCOptions;
+  level: AnalysisLevel;
+  /** Set when department files were merged */
+  mergeKey?: MergeKey;
+  generatedAt?: Date;
+}
+
+/**
+ * Only the analysis fields are kept: merged and INN-level items carry
+ * department amounts and trade items that the schema does not describe.
+ */
+function reportItem(item: AnalyzedItem): AnalyzedItem {
+  const result: AnalyzedItem = {
+    code: item.code,
+    name: item.name,
+    unit: item.unit,
+    quantity: item.quantity,
+    amount: item.amount,
+    ven: item.ven,
+    abc: item.abc,
+    percentOfTotal: item.percentOfTotal,
+    cumulativePercent: item.cumulativePercent,
+  };
+  if (item.atc) {
+    result.atc = item.atc;
+  }
+  return result;
+}
+
+function problemItem({ item, category, action, unitPrice }: ProblemItem): JSONProblemItem {
+  const result: JSONProblemItem = {
+    category,
+    action,
+    code: item.code,
+    name: item.name,
+    unit: item.unit,
+    quantity: item.quantity,
+    amount: item.amount,
+    percentOfTotal: item.percentOfTotal,
+  };
+  if (unitPrice !== undefined) {
+    result.unitPrice = unitPrice;
+  }
+  return result;
+}
+
+export function createJSONReport(
+  items: AnalyzedItem[],
+  summary: ABCSummary[],
+  venSummary: VENSummary[],
+  venDistribution: Record<ABCCategory, Record<VENCategory, CategoryStats>>,
+  context: JSONReportContext
+): JSONReport {
+  const input: JSONReport['input'] = { files: context.files, merged: context.mergeKey !== undefined };
+  if (context.mergeKey) {
+    input.mergeKey = context.mergeKey;
+  }
+
+  const problems = getProblemItems(items);
+  const categories = summarizeProblems(problems);
+
+  return {
+    version: JSON_REPORT_VERSION,
+    generatedAt: (context.generatedAt ?? new Date()).toISOString(),
+    input,
+    parameters: { abc: context.abcOptions, level: context.level },
+    totals: { count: items.length, amount: items.reduce((sum, item) => sum + item.amount, 0) },
+    items: items.map(reportItem),
+    abcSummary: summary,
+    venSummary,
+    matrix: getABCVENMatrix(items) as JSONReport['matrix'],
+    venDistribution,
+    problems: {
+      items: problems.map(problemItem),
+      categories,
+      potentialSavings: {
+        count: problems.length,
+        amount: categories.reduce((sum, category) => sum + category.amount, 0),
+        percentAmount: categories.reduce((sum, category) => sum + category.percentAmount, 0),
+      },
+    },
+  };
+}
+
+export function generateJSONReport(report: JSONReport, outputPath: string): void {
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+}
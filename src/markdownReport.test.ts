@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeABC, getABCSummary, getVENDistributionByABC, getVENSummary } from './analyzer';
+import { generateMarkdownReport, renderMarkdownReport } from './markdownReport';
+import { DrugItem } from './types';
+
+const items: DrugItem[] = [
+  { code: 1, name: 'Препарат А', unit: 'уп.', quantity: 1, amount: 7000, ven: 'V' },
+  { code: 2, name: 'Препарат Б | форте', unit: 'уп.', quantity: 2, amount: 1500, ven: 'N' },
+  { code: 3, name: 'Препарат В', unit: 'фл.', quantity: 3, amount: 1000, ven: 'E' },
+  { code: 4, name: 'Препарат Г', unit: 'уп.', quantity: 4, amount: 500, ven: 'N' },
+];
+
+const analyzed = analyzeABC(items);
+const render = (top?: number): string =>
+  renderMarkdownReport(analyzed, getABCSummary(analyzed), getVENSummary(analyzed), getVENDistributionByABC(analyzed), {
+    title: 'ОПН',
+    top,
+    date: new Date(2025, 11, 31),
+  });
+
+describe('renderMarkdownReport', () => {
+  it('should start with the title and metadata', () => {
+    const lines = render().split('\n');
+
+    expect(lines.slice(0, 6)).toEqual([
+      '# ABC/VEN-анализ: ОПН',
+      '',
+      '- Дата формирования: 31.12.2025',
+      '- Всего позиций: 4',
+      expect.stringMatching(/^- Общая сумма: 10[\u00A0\u202F ]000,00 руб\.$/),
+      '- Уровень анализа: торговые позиции',
+    ]);
+  });
+
+  it('should lay out Tables 1–3 as in OUTPUT_SPEC.md', () => {
+    const report = render();
+
+    expect(report).toContain('## Таблица 1: ABC-анализ\n\n| Группа | Число МНН | % МНН | Затраты, руб. | % затрат |\n|--------|');
+    expect(report).toContain('| A | 2 | 50.00% |');
+    expect(report).toMatch(/\| Итого \| 4 \| 100% \| 10[\u00A0\u202F ]000,00 \| 100% \|/);
+    expect(report).toContain('## Таблица 2: VEN-анализ\n\n| Категория | Число МНН |');
+    expect(report).toContain('## Таблица 3: Матрица ABC/VEN (% затрат внутри группы)\n\n| Группа | V, % | E, % | N, % |');
+    expect(report).toContain('| A | 82.35% | 0.00% | 17.65% |');
+  });
+
+  it('should give Table 4 with the matrix cells and totals as shares of the total', () => {
+    const report = render();
+
+    expect(report).toContain('## Таблица 4: Матрица ABC/VEN (% от общего числа МНН и общих затрат)\n\n| Группа | Показатель | V | E | N | Итого |');
+    expect(report).toContain('| A | Число МНН | 1 | 0 | 1 | 2 |');
+    expect(report).toContain('|  | % затрат | 70.00% | 0.00% | 15.00% | 85.00% |');
+    expect(report).toContain('| Итого | Число МНН | 1 | 1 | 2 | 4 |');
+    expect(report).toMatch(/\|  \| Затраты, руб\. \| 7[\u00A0\u202F ]000,00 \| 1[\u00A0\u202F ]000,00 \| 2[\u00A0\u202F ]000,00 \| 10[\u00A0\u202F ]000,00 \|/);
+  });
+
+  it('should list the problem categories with the potential saving', () => {
+    const report = render();
+
+    expect(report).toContain('## Проблемные категории AN, BN, CN\n\n| Категория | Действие | Число МНН | Затраты, руб. | % затрат |');
+    expect(report).toMatch(/\| AN \| пересмотр \| 1 \| 1[\u00A0\u202F ]500,00 \| 15\.00% \|/);
+    expect(report).toMatch(/\| Итого \| потенциальная экономия \| 2 \| 2[\u00A0\u202F ]000,00 \| 20\.00% \|/);
+    expect(report).toMatch(/\| CN \| 4 \| Препарат Г \| 500,00 \| 5\.00% \| 125,00 \| кандидат на исключение \|/);
+  });
+
+  it('should list every problem item whatever the number of largest items', () => {
+    const report = render(1);
+
+    expect(report).toContain('| AN | 2 | Препарат Б \\| форте |');
+    expect(report).toContain('| CN | 4 | Препарат Г |');
+  });
+
+  it('should list the largest items with pipes escaped', () => {
+    const report = render(2);
+
+    expect(report).toMatch(/\| 1 \| 1 \| Препарат А \| 7[\u00A0\u202F ]000,00 \| 70\.00% \| A \| V \|/);
+    expect(report).toContain('| 2 | 2 | Препарат Б \\| форте |');
+    expect(report).not.toContain('Препарат В |');
+  });
+});
+
+describe('generateMarkdownReport', () => {
+  const testDir = path.join(__dirname, '../test-output-markdown');
+  const testFile = path.join(testDir, 'ОПН_report.md');
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should write the report titled after the file and return it', () => {
+    const content = generateMarkdownReport(analyzed, getABCSummary(analyzed), getVENSummary(analyzed), getVENDistributionByABC(analyzed), testFile);
+
+    expect(fs.readFileSync(testFile, 'utf-8')).toBe(content);
+    expect(content.startsWith('# ABC/VEN-анализ: ОПН\n')).toBe(true);
+  });
+});
@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getABCVENMatrix, sumMatrixCells } from './analyzer';
+import { PROBLEM_ACTION_LABELS, getProblemItems, summarizeProblems } from './problems';
+import { MATRIX_INDICATORS, ReportDetails, describeABCOptions, formatAmount, formatPercent, formatTotalsReconciliation } from './reporter';
+import { ABCCategory, ABCSummary, AnalyzedItem, CategoryStats, VENCategory, VENSummary } from './types';
+
+const ABC_CATEGORIES: ABCCategory[] = ['A', 'B', 'C'];
+const VEN_CATEGORIES: VENCategory[] = ['V', 'E', 'N'];
+
+export interface MarkdownReportOptions {
+  /** Report title, e.g. the department name */
+  title: string;
+  /** Number of the largest items listed (default 10) */
+  top?: number;
+  /** Date printed in the header (default: now) */
+  date?: Date;
+}
+
+// Pipes would split a table cell, line breaks would end the row
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function table(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.join(' | ')} |`,
+    `|${header.map((cell) => '-'.repeat(cell.length + 2)).join('|')}|`,
+    ...rows.map((row) => `| ${row.join(' | ')} |`),
+  ];
+}
+
+function summaryTable(label: string, groups: (CategoryStats & { category: string })[], totalCount: number, totalAmount: number): string[] {
+  return table(
+    [label, 'Число МНН', '% МНН', 'Затраты, руб.', '% затрат'],
+    [
+      ...groups.map((group) => [
+        group.category,
+        String(group.count),
+        formatPercent(group.percentCount),
+        formatAmount(group.amount),
+        formatPercent(group.percentAmount),
+      ]),
+      ['Итого', String(totalCount), '100%', formatAmount(totalAmount), '100%'],
+    ]
+  );
+}
+
+/**
+ * Markdown report in the layout of OUTPUT_SPEC.md: metadata, Tables 1–4,
+ * the problem categories AN, BN and CN with all their items, and the
+ * largest items overall.
+ */
+export function renderMarkdownReport(
+  items: AnalyzedItem[],
+  summary: ABCSummary[],
+  venSummary: VENSummary[],
+  venDistribution: Record<ABCCategory, Record<VENCategory, CategoryStats>>,
+  options: MarkdownReportOptions,
+  details: ReportDetails = {}
+): string {
+  const totalAmount = items.reduce((sum, item) => sum + item.amount, 0);
+  const totalCount = items.length;
+  const matrix = getABCVENMatrix(items);
+  const top = options.top ?? 10;
+  const lines: string[] = [];
+
+  lines.push(`# ABC/VEN-анализ: ${escapeCell(options.title)}`);
+  lines.push('');
+  lines.push(`- Дата формирования: ${(options.date ?? new Date()).toLocaleDateString('ru-RU')}`);
+  lines.push(`- Всего позиций: ${totalCount}`);
+  lines.push(`- Общая сумма: ${formatAmount(totalAmount)} руб.`);
+  lines.push(
+    details.innLevel
+      ? `- Уровень анализа: МНН (${totalCount} МНН из ${details.innLevel.itemCount} торговых позиций)`
+      : '- Уровень анализа: торговые позиции'
+  );
+  if (details.abcOptions) {
+    lines.push(`- ${describeABCOptions(details.abcOptions)}`);
+  }
+  if (details.totals) {
+    lines.push(...formatTotalsReconciliation(details.totals).split('\n').map((line) => `- ${line.trim()}`));
+  }
+  lines.push('');
+
+  lines.push('## Таблица 1: ABC-анализ');
+  lines.push('');
+  lines.push(...summaryTable('Группа', summary, totalCount, totalAmount));
+  lines.push('');
+
+  lines.push('## Таблица 2: VEN-анализ');
+  lines.push('');
+  lines.push(...summaryTable('Категория', venSummary, totalCount, totalAmount));
+  lines.push('');
+
+  lines.push('## Таблица 3: Матрица ABC/VEN (% затрат внутри группы)');
+  lines.push('');
+  lines.push(
+    ...table(
+      ['Группа', 'V, %', 'E, %', 'N, %'],
+      ABC_CATEGORIES.map((abc) => [abc, ...VEN_CATEGORIES.map((ven) => formatPercent(venDistribution[abc][ven].percentAmount))])
+    )
+  );
+  lines.push('');
+
+  lines.push('## Таблица 4: Матрица ABC/VEN (% от общего числа МНН и общих затрат)');
+  lines.push('');
+  lines.push(
+    ...table(
+      ['Группа', 'Показатель', ...VEN_CATEGORIES, 'Итого'],
+      [...ABC_CATEGORIES, undefined].flatMap((abc) => {
+        const cells = [...VEN_CATEGORIES, undefined].map((ven) => sumMatrixCells(matrix, abc, ven));
+        return MATRIX_INDICATORS.map((indicator, index) => [
+          index === 0 ? (abc ?? 'Итого') : '',
+          indicator.label,
+          ...cells.map((cell) => indicator.value(cell)),
+        ]);
+      })
+    )
+  );
+  lines.push('');
+
+  const problems = getProblemItems(items);
+  const problemSummaries = summarizeProblems(problems);
+  lines.push('## Проблемные категории AN, BN, CN');
+  lines.push('');
+  lines.push(
+    ...table(
+      ['Категория', 'Действие', 'Число МНН', 'Затраты, руб.', '% затрат'],
+      [
+        ...problemSummaries.map((summary) => [
+          summary.category,
+          PROBLEM_ACTION_LABELS[summary.action],
+          String(summary.count),
+          formatAmount(summary.amount),
+          formatPercent(summary.percentAmount),
+        ]),
+        [
+          'Итого',
+          'потенциальная экономия',
+          String(problems.length),
+          formatAmount(problemSummaries.reduce((sum, summary) => sum + summary.amount, 0)),
+          formatPercent(problemSummaries.reduce((sum, summary) => sum + summary.percentAmount, 0)),
+        ],
+      ]
+    )
+  );
+  lines.push('');
+  if (problems.length > 0) {
+    lines.push(
+      ...table(
+        ['Категория', 'Код', 'Товар', 'Затраты, руб.', '% затрат', 'Цена за ед., руб.', 'Действие'],
+        problems.map(({ item, category, action, unitPrice }) => [
+          category,
+          String(item.code),
+          escapeCell(item.name),
+          formatAmount(item.amount),
+          formatPercent(item.percentOfTotal),
+          unitPrice !== undefined ? formatAmount(unitPrice) : '—',
+          PROBLEM_ACTION_LABELS[action],
+        ])
+      )
+    );
+    lines.push('');
+  }
+
+  const largest = [...items].sort((a, b) => b.amount - a.amount).slice(0, top);
+  lines.push(`## Крупнейшие позиции`);
+  lines.push('');
+  lines.push(
+    ...table(
+      ['№', 'Код', 'Товар', 'Затраты, руб.', '% затрат', 'ABC', 'VEN'],
+      largest.map((item, index) => [
+        String(index + 1),
+        String(item.code),
+        escapeCell(item.name),
+        formatAmount(item.amount),
+        formatPercent(item.percentOfTotal),
+        item.abc,
+        item.ven,
+      ])
+    )
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+export function generateMarkdownReport(
+  items: AnalyzedItem[],
+  summary: ABCSummary[],
+  venSummary: VENSummary[],
+  venDistribution: Record<ABCCategory, Record<VENCategory, CategoryStats>>,
+  outputPath: string,
+  details: ReportDetails = {}
+): string {
+  const title = path.basename(outputPath, '.md').replace(/_report$/, '');
+  const content = renderMarkdownReport(items, summary, venSummary, venDistribution, { title }, details);
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+  return content;
+}
+
+/**
+ * Converts a Markdown report to PDF with md-to-pdf, which renders it in
+ * headless Chromium; the module is loaded only when a PDF is requested.
+ */
+export async function generatePDFReport(markdown: string, outputPath: string): Promise<void> {
+  const { mdToPdf } = await import('md-to-pdf');
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  await mdToPdf(
+    { content: markdown },
+    {
+      dest: outputPath,
+      pdf_options: { format: 'A4', margin: { top: '15mm', bottom: '15mm', left: '15mm', right: '15mm' } },
+      css: 'table { border-collapse: collapse; font-size: 11px; } th, td { border: 1px solid #999; padding: 3px 6px; }',
+    }
+  );
+}
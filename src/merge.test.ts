@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { findCodeConflicts, getDepartmentTotals, isMergedItem, mergeDepartments, normalizeDrugName } from './merge';
+import { DepartmentItems, DrugItem } from './types';
+
+const item = (code: number, name: string, quantity: number, amount: number, ven: DrugItem['ven'] = 'V'): DrugItem => ({
+  code,
+  name,
+  unit: 'уп.',
+  quantity,
+  amount,
+  ven,
+});
+
+describe('normalizeDrugName', () => {
+  it('should ignore case, ё and whitespace', () => {
+    expect(normalizeDrugName('Азитромицин  капс. 250мг №6')).toBe(normalizeDrugName('азитромицин капс.250мг №6'));
+    expect(normalizeDrugName('Ёж')).toBe('еж');
+  });
+});
+
+describe('mergeDepartments', () => {
+  const departments: DepartmentItems[] = [
+    { department: 'ОПН', items: [item(1, 'Препарат А', 2, 100), item(2, 'Препарат Б', 1, 50, 'E')] },
+    { department: 'эндо', items: [item(1, 'препарат  А', 3, 150), item(5, 'Препарат В', 1, 10, 'N')] },
+  ];
+
+  it('should sum items with the same code with the code key', () => {
+    const result = mergeDepartments(departments, 'code');
+
+    expect(result).toHaveLength(3);
+    expect(result[0]).toEqual({
+      code: 1,
+      name: 'Препарат А',
+      unit: 'уп.',
+      quantity: 5,
+      amount: 250,
+      ven: 'V',
+      departments: [
+        { department: 'ОПН', quantity: 2, amount: 100 },
+        { department: 'эндо', quantity: 3, amount: 150 },
+      ],
+    });
+  });
+
+  it('should keep items with the same code but different names apart with the code-name key', () => {
+    const result = mergeDepartments(
+      [
+        { department: 'ОПН', items: [item(1, 'Препарат А', 1, 100)] },
+        { department: 'эндо', items: [item(1, 'Препарат Г', 1, 20)] },
+      ],
+      'code-name'
+    );
+
+    expect(result.map((merged) => merged.name)).toEqual(['Препарат А', 'Препарат Г']);
+  });
+
+  it('should match by name by default, since codes are row numbers', () => {
+    const result = mergeDepartments([
+      { department: 'эндо', items: [item(2, 'Аевит капс. №20', 1, 100)] },
+      { department: 'гастро', items: [item(2, 'Азатиоприн таб. 50мг №50', 1, 900), item(9, 'аевит капс.  №20', 2, 200)] },
+    ]);
+
+    expect(result.map((merged) => [merged.code, merged.name, merged.amount])).toEqual([
+      [1, 'Аевит капс. №20', 300],
+      [2, 'Азатиоприн таб. 50мг №50', 900],
+    ]);
+  });
+
+  it('should match by normalized name and renumber with the name key', () => {
+    const result = mergeDepartments(
+      [
+        { department: 'ОПН', items: [item(4, 'Препарат Б', 1, 50), item(7, 'Препарат А', 2, 100)] },
+        { department: 'эндо', items: [item(1, 'препарат а', 3, 150)] },
+      ],
+      'name'
+    );
+
+    expect(result.map((merged) => [merged.code, merged.name, merged.amount])).toEqual([
+      [1, 'Препарат А', 250],
+      [2, 'Препарат Б', 50],
+    ]);
+  });
+
+  it('should add up repeated items within a department', () => {
+    const result = mergeDepartments([{ department: 'ОПН', items: [item(1, 'А', 1, 10), item(1, 'А', 2, 20)] }]);
+
+    expect(result[0].departments).toEqual([{ department: 'ОПН', quantity: 3, amount: 30 }]);
+  });
+
+  it('should not modify the source items', () => {
+    mergeDepartments(departments);
+
+    expect(departments[0].items[0].amount).toBe(100);
+  });
+});
+
+describe('findCodeConflicts', () => {
+  it('should list codes carrying different names with the file of each name', () => {
+    const conflicts = findCodeConflicts([
+      { department: 'эндо', items: [item(1, 'Препарат А', 1, 10), item(2, 'Аевит', 1, 10)] },
+      { department: 'гастро', items: [item(1, 'препарат  а', 1, 10), item(2, 'Азатиоприн', 1, 10), item(3, 'Препарат В', 1, 10)] },
+    ]);
+
+    expect(conflicts).toEqual([
+      {
+        code: 2,
+        names: [
+          { department: 'эндо', name: 'Аевит' },
+          { department: 'гастро', name: 'Азатиоприн' },
+        ],
+      },
+    ]);
+  });
+
+  it('should find clashes within one file', () => {
+    expect(findCodeConflicts([{ department: 'ОПН', items: [item(1, 'А', 1, 10), item(1, 'Б', 1, 10)] }])).toHaveLength(1);
+  });
+});
+
+describe('isMergedItem', () => {
+  it('should tell merged items from department items', () => {
+    const [merged] = mergeDepartments([{ department: 'ОПН', items: [item(1, 'А', 1, 10)] }]);
+
+    expect(isMergedItem(merged)).toBe(true);
+    expect(isMergedItem(item(1, 'А', 1, 10))).toBe(false);
+  });
+});
+
+describe('getDepartmentTotals', () => {
+  it('should count items and shares per department', () => {
+    const merged = mergeDepartments([
+      { department: 'ОПН', items: [item(1, 'А', 1, 300), item(2, 'Б', 1, 100)] },
+      { department: 'эндо', items: [item(1, 'А', 1, 100)] },
+    ]);
+
+    expect(getDepartmentTotals(merged, ['ОПН', 'эндо', 'гастро'])).toEqual([
+      { department: 'ОПН', count: 2, amount: 400, percentAmount: 80 },
+      { department: 'эндо', count: 1, amount: 100, percentAmount: 20 },
+      { department: 'гастро', count: 0, amount: 0, percentAmount: 0 },
+    ]);
+  });
+});
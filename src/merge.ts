@@ -0,0 +1,118 @@
+import { CodeConflict, DepartmentItems, DepartmentTotal, DrugItem, MergedItem, MergeKey } from './types';
+
+export const MERGE_KEYS: MergeKey[] = ['code', 'code-name', 'name'];
+
+/** Department reports number their rows independently, so only names identify drugs across files */
+export const DEFAULT_MERGE_KEY: MergeKey = 'name';
+
+/**
+ * Name form used for matching: case, "ё" and whitespace differences are
+ * ignored, so "Азитромицин капс. 250мг №6" matches "азитромицин капс.250мг №6".
+ */
+export function normalizeDrugName(name: string): string {
+  return name.toLowerCase().replace(/ё/g, 'е').replace(/\s+/g, '');
+}
+
+/** Identity of an item when matching files: code, code with name, or name */
+export function itemKey(item: DrugItem, key: MergeKey): string {
+  switch (key) {
+    case 'code':
+      return String(item.code);
+    case 'code-name':
+      return `${item.code}|${normalizeDrugName(item.name)}`;
+    case 'name':
+      return normalizeDrugName(item.name);
+  }
+}
+
+/**
+ * Consolidates department files into one dataset. Items with the same key
+ * are summed, and each merged item keeps its per-department quantity and
+ * amount in department order. Name, unit and VEN come from the first
+ * department listing the item.
+ *
+ * Department reports number their rows independently, so with the 'name'
+ * key merged items are renumbered 1..N in name order; other keys keep the
+ * source code.
+ */
+export function mergeDepartments(departments: DepartmentItems[], key: MergeKey = DEFAULT_MERGE_KEY): MergedItem[] {
+  const merged = new Map<string, MergedItem>();
+
+  for (const { department, items } of departments) {
+    for (const item of items) {
+      const id = itemKey(item, key);
+      let target = merged.get(id);
+      if (!target) {
+        target = { ...item, quantity: 0, amount: 0, departments: [] };
+        merged.set(id, target);
+      }
+      target.quantity += item.quantity;
+      target.amount += item.amount;
+
+      const share = target.departments.find((entry) => entry.department === department);
+      if (share) {
+        share.quantity += item.quantity;
+        share.amount += item.amount;
+      } else {
+        target.departments.push({ department, quantity: item.quantity, amount: item.amount });
+      }
+    }
+  }
+
+  const result = [...merged.values()];
+  if (key === 'name') {
+    result.sort((a, b) => a.name.localeCompare(b.name, 'ru'));
+    result.forEach((item, index) => {
+      item.code = index + 1;
+    });
+  }
+  return result;
+}
+
+/**
+ * Codes listed with different names (after normalization) in the files or
+ * within one file. Matching by code would add these unrelated items
+ * together under the first name.
+ */
+export function findCodeConflicts(departments: DepartmentItems[]): CodeConflict[] {
+  const byCode = new Map<number, Map<string, { department: string; name: string }>>();
+
+  for (const { department, items } of departments) {
+    for (const item of items) {
+      let names = byCode.get(item.code);
+      if (!names) {
+        names = new Map();
+        byCode.set(item.code, names);
+      }
+      const normalized = normalizeDrugName(item.name);
+      if (!names.has(normalized)) {
+        names.set(normalized, { department, name: item.name });
+      }
+    }
+  }
+
+  return [...byCode]
+    .filter(([, names]) => names.size > 1)
+    .map(([code, names]) => ({ code, names: [...names.values()] }));
+}
+
+/** Narrows items that went through mergeDepartments, keeping their other fields */
+export function isMergedItem<T extends DrugItem>(item: T): item is T & MergedItem {
+  return Array.isArray((item as Partial<MergedItem>).departments);
+}
+
+/** Each department's item count and share of the consolidated amount */
+export function getDepartmentTotals(items: MergedItem[], departments: string[]): DepartmentTotal[] {
+  const totalAmount = items.reduce((sum, item) => sum + item.amount, 0);
+
+  return departments.map((department) => {
+    const shares = items.flatMap((item) => item.departments.filter((share) => share.department === department));
+    const amount = shares.reduce((sum, share) => sum + share.amount, 0);
+    return {
+      department,
+      count: shares.length,
+      amount,
+      percentAmount: totalAmount > 0 ? (amount / totalAmount) * 100 : 0,
+    };
+  });
+}
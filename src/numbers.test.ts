@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { detectNumberLocale, parseLocaleNumber } from './numbers';
+
+describe('parseLocaleNumber', () => {
+  it('should return null for empty cells', () => {
+    expect(parseLocaleNumber('', 'ru')).toBeNull();
+    expect(parseLocaleNumber('   ', 'en')).toBeNull();
+  });
+
+  it('should parse plain numbers in both locales', () => {
+    expect(parseLocaleNumber('384.4', 'ru')?.value).toBe(384.4);
+    expect(parseLocaleNumber('384.4', 'en')?.value).toBe(384.4);
+    expect(parseLocaleNumber('28230955', 'ru')?.value).toBe(28230955);
+    expect(parseLocaleNumber('-12,5', 'ru')?.value).toBe(-12.5);
+  });
+
+  it('should parse Russian formatting with space, NBSP and narrow NBSP groups', () => {
+    expect(parseLocaleNumber('1 234 567,89', 'ru')?.value).toBe(1234567.89);
+    expect(parseLocaleNumber('1 234 567,89', 'ru')?.value).toBe(1234567.89);
+    expect(parseLocaleNumber('1 234,5', 'en')?.value).toBe(1234.5);
+  });
+
+  it('should strip ruble suffixes', () => {
+    expect(parseLocaleNumber('1 234,56 руб.', 'ru')?.value).toBe(1234.56);
+    expect(parseLocaleNumber('1234.56руб', 'ru')?.value).toBe(1234.56);
+    expect(parseLocaleNumber('99 р.', 'ru')?.value).toBe(99);
+    expect(parseLocaleNumber('₽ 10', 'ru')?.value).toBe(10);
+  });
+
+  it('should parse numbers with both separators regardless of locale', () => {
+    expect(parseLocaleNumber('1,234,567.89', 'ru')?.value).toBe(1234567.89);
+    expect(parseLocaleNumber('1.234.567,89', 'en')?.value).toBe(1234567.89);
+    expect(parseLocaleNumber('1,234.5', 'ru')?.ambiguous).toBe(false);
+  });
+
+  it('should parse repeated separators as thousands groups', () => {
+    expect(parseLocaleNumber('1,234,567', 'ru')?.value).toBe(1234567);
+    expect(parseLocaleNumber('1.234.567', 'en')?.value).toBe(1234567);
+  });
+
+  it('should resolve a single comma before three digits by locale and mark it ambiguous', () => {
+    expect(parseLocaleNumber('1,234', 'ru')).toEqual({ value: 1.234, ambiguous: true });
+    expect(parseLocaleNumber('1,234', 'en')).toEqual({ value: 1234, ambiguous: true });
+  });
+
+  it('should not mark commas that can only be decimal as ambiguous', () => {
+    expect(parseLocaleNumber('1234,56', 'en')).toEqual({ value: 1234.56, ambiguous: false });
+    expect(parseLocaleNumber('0,125', 'en')).toEqual({ value: 0.125, ambiguous: false });
+  });
+
+  it('should parse exponent notation written by spreadsheets', () => {
+    expect(parseLocaleNumber('1e-7', 'ru')?.value).toBe(1e-7);
+  });
+
+  it('should return NaN instead of truncating invalid text', () => {
+    expect(parseLocaleNumber('12abc', 'ru')?.value).toBeNaN();
+    expect(parseLocaleNumber('=SUM(E5:E121)', 'ru')?.value).toBeNaN();
+    expect(parseLocaleNumber('1,23,4', 'en')?.value).toBeNaN();
+    expect(parseLocaleNumber('1.234,5,6', 'ru')?.value).toBeNaN();
+    expect(parseLocaleNumber('12 34', 'ru')?.value).toBeNaN();
+  });
+});
+
+describe('detectNumberLocale', () => {
+  it('should detect ru by comma decimals and space groups', () => {
+    expect(detectNumberLocale(['1234,56', '10', '1 234'])).toEqual({ locale: 'ru', confident: true });
+  });
+
+  it('should detect en by comma groups and dot decimals', () => {
+    expect(detectNumberLocale(['1,234,567', '384.4', '1,234'])).toEqual({ locale: 'en', confident: true });
+  });
+
+  it('should fall back to ru without evidence', () => {
+    expect(detectNumberLocale(['10', '1,234', ''])).toEqual({ locale: 'ru', confident: false });
+  });
+
+  it('should not be confident when both conventions get the same votes', () => {
+    expect(detectNumberLocale(['1234,56', '384.4', '1,234'])).toEqual({ locale: 'ru', confident: false, tie: true });
+  });
+});
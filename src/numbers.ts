@@ -0,0 +1,119 @@
+import { NumberLocale } from './types';
+
+export const NUMBER_LOCALES: NumberLocale[] = ['ru', 'en'];
+
+export interface ParsedNumber {
+  /** NaN when the text is not a number */
+  value: number;
+  /** The value depends on the locale, e.g. "1,234" is 1.234 (ru) or 1234 (en) */
+  ambiguous: boolean;
+}
+
+export interface NumberLocaleDetection {
+  locale: NumberLocale;
+  /** False when the cells did not settle the convention and the default was used */
+  confident: boolean;
+  /** Set when cells showed both conventions equally often */
+  tie?: boolean;
+}
+
+const DEFAULT_LOCALE: NumberLocale = 'ru';
+
+const CURRENCY_SUFFIX = /\s*(руб\.?|р\.|₽|rub\.?)$/i;
+const CURRENCY_PREFIX = /^₽\s*/;
+const GROUP_SPACE = /(?<=\d)[\s'](?=\d{3})/g;
+const PLAIN_NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+const EXPONENT_NUMBER = /^[-+]?\d+(\.\d+)?e[-+]?\d+$/i;
+const LOCALE_DEPENDENT_COMMA = /^[-+]?[1-9]\d{0,2},\d{3}$/;
+
+function normalize(text: string): string {
+  return text
+    .trim()
+    .replace(CURRENCY_SUFFIX, '')
+    .replace(CURRENCY_PREFIX, '')
+    .replace(/−/g, '-')
+    .replace(GROUP_SPACE, '');
+}
+
+function count(text: string, char: string): number {
+  return text.split(char).length - 1;
+}
+
+/**
+ * Parses a number cell. Returns null for an empty cell; unparsable text
+ * gives NaN instead of a truncated prefix ("12abc" is not 12).
+ */
+export function parseLocaleNumber(text: string, locale: NumberLocale): ParsedNumber | null {
+  if (text.trim() === '') {
+    return null;
+  }
+
+  let value = normalize(text);
+  let ambiguous = false;
+
+  if (EXPONENT_NUMBER.test(value)) {
+    return { value: Number(value), ambiguous };
+  }
+
+  const commas = count(value, ',');
+  const dots = count(value, '.');
+
+  if (commas > 0 && dots > 0) {
+    // The last separator is the decimal one, the other groups thousands
+    const decimal = value.lastIndexOf(',') > value.lastIndexOf('.') ? ',' : '.';
+    const group = decimal === ',' ? '.' : ',';
+    if (count(value, decimal) !== 1 || value.indexOf(group) > value.indexOf(decimal)) {
+      return { value: NaN, ambiguous };
+    }
+    value = value.split(group).join('').replace(decimal, '.');
+  } else if (commas > 1 || dots > 1) {
+    const group = commas > 1 ? ',' : '.';
+    const grouping = new RegExp(`^[-+]?\\d{1,3}(\\${group}\\d{3})+$`);
+    if (!grouping.test(value)) {
+      return { value: NaN, ambiguous };
+    }
+    value = value.split(group).join('');
+  } else if (commas === 1) {
+    ambiguous = LOCALE_DEPENDENT_COMMA.test(value);
+    value = ambiguous && locale === 'en' ? value.replace(',', '') : value.replace(',', '.');
+  }
+
+  return { value: PLAIN_NUMBER.test(value) ? Number(value) : NaN, ambiguous };
+}
+
+/**
+ * Chooses the file's convention by the cells that show it unambiguously:
+ * a comma decimal or space groups vote for ru, comma groups or a dot decimal for en.
+ */
+export function detectNumberLocale(cells: string[]): NumberLocaleDetection {
+  const votes: Record<NumberLocale, number> = { ru: 0, en: 0 };
+
+  for (const cell of cells) {
+    const raw = cell.trim().replace(CURRENCY_SUFFIX, '');
+    if (/\d\s\d{3}/.test(raw)) {
+      votes.ru++;
+      continue;
+    }
+
+    const value = normalize(cell);
+    const commas = count(value, ',');
+    const dots = count(value, '.');
+
+    if (commas > 0 && dots > 0) {
+      votes[value.lastIndexOf(',') > value.lastIndexOf('.') ? 'ru' : 'en']++;
+    } else if (commas > 1) {
+      votes.en++;
+    } else if (commas === 1 && !LOCALE_DEPENDENT_COMMA.test(value)) {
+      votes.ru++;
+    } else if (dots === 1 && commas === 0 && !EXPONENT_NUMBER.test(value)) {
+      votes.en++;
+    }
+  }
+
+  if (votes.ru === votes.en) {
+    return votes.ru > 0
+      ? { locale: DEFAULT_LOCALE, confident: false, tie: true }
+      : { locale: DEFAULT_LOCALE, confident: false };
+  }
+  return { locale: votes.ru > votes.en ? 'ru' : 'en', confident: true };
+}
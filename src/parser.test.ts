@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
-import { parseCSV } from './parser';
+import * as XLSX from 'xlsx';
+import { parseCSV, parseFile, parseFileWithDiagnostics, parseWorkbook } from './parser';
+import { VENDictionaryEntry } from './types';
 
 describe('parseCSV', () => {
   const testDir = path.join(__dirname, '../test-data');
@@ -394,7 +396,556 @@ describe('parseCSV', () => {
 
   describe('error handling', () => {
     it('should throw error for non-existent file', () => {
-      expect(() => parseCSV('/non/existent/file.csv')).toThrow();
+      expect(() => parseCSV('/non/existent/file.csv')).toThrow('Файл не найден');
+    });
+  });
+
+  describe('header detection', () => {
+    it('should find columns by header synonyms', () => {
+      const content = [
+        'Отчёт о расходе',
+        'VEN,Код,Наименование,Единица,Количество,"Сумма, руб."',
+        'V,1,Препарат А,фл.,10,1000',
+        'E,2,Препарат Б,уп.,5,500',
+      ].join('\n');
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseCSV(filePath);
+
+      expect(result).toEqual([
+        { code: 1, name: 'Препарат А', unit: 'фл.', quantity: 10, amount: 1000, ven: 'V' },
+        { code: 2, name: 'Препарат Б', unit: 'уп.', quantity: 5, amount: 500, ven: 'E' },
+      ]);
+    });
+
+    it('should accept an explicit column mapping', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,1000,V,E']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseCSV(filePath, { columns: { ven: 6 } });
+
+      expect(result[0].ven).toBe('E');
+    });
+
+    it('should fall back to positional columns without a header', () => {
+      const content = ['', '', '', '', '1,Препарат А,уп.,10,1000,V'].join('\n');
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseCSV(filePath);
+
+      expect(result.length).toBe(1);
+      expect(result[0].amount).toBe(1000);
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('should report no diagnostics for a clean file', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,1000,V', ',,Всего:,10,1000,']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.items.length).toBe(1);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should report each rejected row with line number, raw text and reason', () => {
+      const content = createStandardCSV([
+        '1,Препарат А,уп.,10,1000,V',
+        '2,Препарат Б,уп.,10',
+        'abc,Препарат В,уп.,10,1000,E',
+        '4,,уп.,10,1000,E',
+        '5,Препарат Д,уп.,10,1000,X',
+        '6,Препарат Е,уп.,10,1000,',
+      ]);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.items.length).toBe(1);
+      expect(result.diagnostics).toEqual([
+        { line: 6, raw: '2,Препарат Б,уп.,10', reason: 'недостаточно колонок: 4 из 6', severity: 'error' },
+        { line: 7, raw: 'abc,Препарат В,уп.,10,1000,E', reason: 'нечисловой код: "abc"', severity: 'error' },
+        { line: 8, raw: '4,,уп.,10,1000,E', reason: 'не указано наименование', severity: 'error' },
+        { line: 9, raw: '5,Препарат Д,уп.,10,1000,X', reason: 'недопустимая категория VEN: "X"', severity: 'error' },
+        { line: 10, raw: '6,Препарат Е,уп.,10,1000,', reason: 'не указана категория VEN', severity: 'error' },
+      ]);
+    });
+
+    it('should reject non-numeric amounts instead of treating them as 0', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,12abc,V']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.items.length).toBe(0);
+      expect(result.diagnostics[0].reason).toBe('нечисловая сумма: "12abc"');
+      expect(result.diagnostics[0].severity).toBe('error');
+    });
+
+    it('should warn about empty amounts and non-numeric quantities', () => {
+      const content = createStandardCSV([
+        '1,Препарат А,уп.,10,,V',
+        '2,Препарат Б,уп.,много,500,E',
+      ]);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.items.map((item) => [item.quantity, item.amount])).toEqual([[10, 0], [0, 500]]);
+      expect(result.diagnostics.map((d) => [d.line, d.severity])).toEqual([[5, 'warning'], [6, 'warning']]);
+    });
+
+    it('should warn about stray rows without code and amount', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,1000,V', ',Примечание,,,,']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.diagnostics).toEqual([
+        { line: 6, raw: ',Примечание,,,,', reason: 'строка без кода и суммы пропущена', severity: 'warning' },
+      ]);
+    });
+
+    it('should skip unlabeled totals rows silently', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,1000,V', ',,,10,1000,']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should accept an unlabeled row that sums the items above as totals', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,1000,V', ',,,10,1000,', '2,Препарат Б,уп.,5,500,E']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.diagnostics).toEqual([]);
+      expect(result.declaredTotals).toEqual({ line: 6, quantity: 10, amount: 1000 });
+    });
+
+    it('should reject a row without code, name and VEN in the middle of the table', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,1000,V', ',,уп.,3,450,', '2,Препарат Б,уп.,5,500,E']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.items.map((item) => item.code)).toEqual([1, 2]);
+      expect(result.declaredTotals).toBeUndefined();
+      expect(result.diagnostics).toEqual([
+        {
+          line: 6,
+          raw: ',,уп.,3,450,',
+          reason: 'нет кода, наименования и VEN: строка не итоговая, её сумма не учтена',
+          severity: 'error',
+        },
+      ]);
+    });
+  });
+
+  describe('CSV records', () => {
+    it('should read names with line breaks inside quotes', () => {
+      const content = createStandardCSV(['1,"Препарат А\nраствор",уп.,10,100,V', '2,Препарат Б,уп.,5,50,E']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.items.map((item) => item.name)).toEqual(['Препарат А\nраствор', 'Препарат Б']);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should read CRLF files without trailing carriage returns', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,100,V']).replace(/\n/g, '\r\n') + '\r\n';
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.items[0].ven).toBe('V');
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should report malformed quoting with the physical line number', () => {
+      const content = createStandardCSV(['1,"Препарат\nА",уп.,10,100,V', '2,"Препарат" Б,уп.,5,50,E']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.items).toHaveLength(1);
+      expect(result.diagnostics).toEqual([
+        {
+          line: 7,
+          raw: '2,"Препарат" Б,уп.,5,50,E',
+          reason: 'текст после закрывающей кавычки в поле 2',
+          severity: 'error',
+        },
+      ]);
+    });
+  });
+
+  describe('encoding and delimiter', () => {
+    const toCP1251 = (text: string): Buffer =>
+      Buffer.from([...text].map((char) => (char >= 'А' && char <= 'я' ? char.charCodeAt(0) - 0x410 + 0xc0 : char.charCodeAt(0))));
+
+    const createBinaryFile = (filename: string, content: Buffer): string => {
+      const filePath = path.join(testDir, filename);
+      fs.writeFileSync(filePath, content);
+      return filePath;
+    };
+
+    // The standard header with ';' delimiters followed by rows with decimal commas
+    const createSemicolonCSV = (): string =>
+      [createStandardCSV([]).replace(/,/g, ';'), '1;Препарат А;уп.;10;1234,5;V', '2;Препарат Б;уп.;5;100;E'].join('\n');
+
+    it('should read a windows-1251 export with semicolons and decimal commas', () => {
+      const filePath = createBinaryFile('test.csv', toCP1251(createSemicolonCSV()));
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.csvFormat).toEqual({ encoding: 'windows-1251', delimiter: ';', bom: false });
+      expect(result.items.map((item) => [item.name, item.amount])).toEqual([['Препарат А', 1234.5], ['Препарат Б', 100]]);
+    });
+
+    it('should skip a UTF-8 BOM', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,"1234,5",V', '2,Препарат Б,уп.,5,100,E']);
+      const filePath = createBinaryFile('test.csv', Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(content)]));
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.csvFormat).toEqual({ encoding: 'utf-8', delimiter: ',', bom: true });
+      expect(result.items).toHaveLength(2);
+    });
+
+    it('should keep empty edge cells of tab-separated files', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,1234.5,V']).replace(/,/g, '\t');
+      const filePath = createCSVFile('test.txt', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.csvFormat?.delimiter).toBe('\t');
+      expect(result.items[0]).toEqual({
+        code: 1,
+        name: 'Препарат А',
+        unit: 'уп.',
+        quantity: 10,
+        amount: 1234.5,
+        ven: 'V',
+      });
+    });
+
+    it('should use the encoding and delimiter given in options', () => {
+      const filePath = createBinaryFile('test.csv', toCP1251(createSemicolonCSV()));
+
+      const result = parseFileWithDiagnostics(filePath, { encoding: 'windows-1251', delimiter: ';' });
+
+      expect(result.items[0].name).toBe('Препарат А');
+      expect(result.items[0].amount).toBe(1234.5);
+    });
+  });
+
+  describe('number formats', () => {
+    it('should parse Russian-formatted amounts with groups and currency', () => {
+      const content = createStandardCSV([
+        '1,Препарат А,уп.,"1 200","1 234 567,89 руб."',
+        '2,Препарат Б,уп.,5,"1\u00A0000,5"',
+      ].map((row) => `${row},V`));
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.numberLocale).toBe('ru');
+      expect(result.items.map((item) => [item.quantity, item.amount])).toEqual([[1200, 1234567.89], [5, 1000.5]]);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should parse en-US amounts when the file uses them', () => {
+      const content = createStandardCSV([
+        '1,Препарат А,уп.,10,"1,234,567.89",V',
+        '2,Препарат Б,уп.,5,"2,500",V',
+      ]);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.numberLocale).toBe('en');
+      expect(result.items[1].amount).toBe(2500);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should report locale-dependent cells when the file does not show its convention', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,"2,500",V']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.items[0].amount).toBe(2.5);
+      expect(result.diagnostics).toEqual([
+        {
+          line: 5,
+          raw: '1,Препарат А,уп.,10,"2,500",V',
+          reason: 'неоднозначное число "2,500" (сумма): принято 2.5 по формату ru',
+          severity: 'warning',
+        },
+      ]);
+    });
+
+    it('should report locale-dependent cells when the conventions are tied', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,"10,5",384.4,V', '2,Препарат Б,уп.,10,"2,500",V']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.numberLocale).toBe('ru');
+      expect(result.diagnostics.map((d) => d.reason)).toEqual([
+        'неоднозначное число "2,500" (сумма): принято 2.5 по формату ru; признаков ru и en в файле поровну',
+      ]);
+    });
+
+    it('should use the number locale given in options', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,"2,500",V']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath, { numberLocale: 'en' });
+
+      expect(result.items[0].amount).toBe(2500);
+      expect(result.diagnostics).toEqual([]);
+    });
+  });
+
+  describe('declared totals', () => {
+    it('should read quantity and amount from the "Всего:" row', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,1000,V', ',,Всего:,10,"1000,5",']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.declaredTotals).toEqual({ line: 6, quantity: 10, amount: 1000.5 });
+    });
+
+    it('should read unlabeled totals rows', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,1000,V', ',,,10,1000,']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.declaredTotals).toEqual({ line: 6, quantity: 10, amount: 1000 });
+    });
+
+    it('should ignore placeholder and formula totals', () => {
+      const placeholder = createCSVFile('a.csv', createStandardCSV(['1,Препарат А,уп.,10,1000,V', ',,Всего:,,,']));
+      const formula = createCSVFile('b.csv', createStandardCSV(['1,Препарат А,уп.,10,1000,V', ',,Всего:,=SUM(D5:D5),=SUM(E5:E5),']));
+
+      expect(parseFileWithDiagnostics(placeholder).declaredTotals).toBeUndefined();
+      expect(parseFileWithDiagnostics(formula).declaredTotals).toBeUndefined();
+    });
+  });
+
+  describe('VEN dictionary', () => {
+    const dictionary: VENDictionaryEntry[] = [
+      { name: 'Препарат А', ven: 'E', rationale: 'решение ФК' },
+      { code: 2, ven: 'N' },
+    ];
+
+    it('should fill missing and invalid VEN categories', () => {
+      const content = createStandardCSV(['1,Препарат А,уп.,10,1000,', '2,Препарат Б,уп.,5,500,X']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath, { venDictionary: dictionary });
+
+      expect(result.items.map((item) => item.ven)).toEqual(['E', 'N']);
+      expect(result.diagnostics).toEqual([]);
+      expect(result.venConflicts).toEqual([]);
+    });
+
+    it('should report rows whose VEN differs from the dictionary', () => {
+      const content = createStandardCSV(['1,ПРЕПАРАТ  А,уп.,10,1000,v', '2,Препарат Б,уп.,5,500,N', '3,Препарат В,уп.,1,100,V']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath, { venDictionary: dictionary });
+
+      expect(result.items.map((item) => item.ven)).toEqual(['E', 'N', 'V']);
+      expect(result.venConflicts).toEqual([
+        { line: 5, code: 1, name: 'ПРЕПАРАТ  А', fileVEN: 'V', dictionaryVEN: 'E', rationale: 'решение ФК' },
+      ]);
+    });
+
+    it('should still reject rows without VEN that are not in the dictionary', () => {
+      const content = createStandardCSV(['3,Препарат В,уп.,1,100,']);
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath, { venDictionary: dictionary });
+
+      expect(result.items).toEqual([]);
+      expect(result.diagnostics[0].reason).toBe('не указана категория VEN');
+    });
+
+    it('should accept workbooks without a VEN column', () => {
+      const filePath = path.join(testDir, 'test.xlsx');
+      const workbook = XLSX.utils.book_new();
+      const rows = [
+        ['Товар - название', '', 'Ед.', 'Операции расхода', ''],
+        ['', '', '', 'Кол-во', 'Сумма'],
+        [1, 'Препарат А', 'уп.', 10, 1000],
+        [2, 'Препарат Б', 'уп.', 5, 500],
+      ];
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Sheet1');
+      XLSX.writeFile(workbook, filePath);
+
+      expect(() => parseWorkbook(filePath)).toThrow('Не найдены обязательные столбцы (лист "Sheet1" — VEN)');
+      expect(parseWorkbook(filePath, { venDictionary: dictionary }).map((item) => item.ven)).toEqual(['E', 'N']);
+    });
+  });
+
+  describe('ATC column', () => {
+    it('should read ATC codes and skip invalid ones with a warning', () => {
+      const content = [
+        'ОПН 2025 г.,,,,,,',
+        'Товар - название,,Код АТХ,Ед.,Операции расхода,,',
+        ',,,,Кол-во,Сумма,',
+        '1,Препарат А,j01cr02,уп.,10,1000,V',
+        '2,Препарат Б,J1,уп.,5,500,E',
+        '3,Препарат В,N02BE01,уп.,1,100,N',
+        '4,Препарат Г,,уп.,1,100,N',
+      ].join('\n');
+      const filePath = createCSVFile('test.csv', content);
+
+      const result = parseFileWithDiagnostics(filePath);
+
+      expect(result.items.map((item) => item.atc)).toEqual(['J01CR02', undefined, 'N02BE01', undefined]);
+      expect(result.items.map((item) => item.code)).toEqual([1, 2, 3, 4]);
+      expect(result.diagnostics.map((d) => [d.severity, d.reason])).toEqual([['warning', 'некорректный код ATC "J1" пропущен']]);
+    });
+  });
+
+  describe('workbook input', () => {
+    const createWorkbook = (filename: string, rows: (string | number)[][], sheetName = 'Sheet1'): string => {
+      const filePath = path.join(testDir, filename);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName);
+      XLSX.writeFile(workbook, filePath);
+      return filePath;
+    };
+
+    const standardHeader = [
+      ['ОПН 2025 г.', '', '', '', '', ''],
+      ['По всем товарам.', '', '', '', '', ''],
+      ['Товар - название', '', 'Ед.', 'Операции расхода', '', ''],
+      ['', '', '', 'Кол-во', 'Сумма', ''],
+    ];
+
+    it('should parse standard workbook layout', () => {
+      const filePath = createWorkbook('test.xlsx', [
+        ...standardHeader,
+        [4, 'Адреналин амп. 0,1% 1мл №5', 'уп.', 5, 384.4, 'V'],
+        [7, 'Азитромицин пор.', 'фл.', 2, 290, 'e'],
+        ['', '', 'Всего:', 7, 674.4, ''],
+      ]);
+
+      const result = parseWorkbook(filePath);
+
+      expect(result).toEqual([
+        { code: 4, name: 'Адреналин амп. 0,1% 1мл №5', unit: 'уп.', quantity: 5, amount: 384.4, ven: 'V' },
+        { code: 7, name: 'Азитромицин пор.', unit: 'фл.', quantity: 2, amount: 290, ven: 'E' },
+      ]);
+    });
+
+    it('should default unit when there is no unit column', () => {
+      const filePath = createWorkbook('test.xlsx', [
+        ['Товар - название', '', 'Операции расхода', '', ''],
+        ['', '', 'Кол-во', 'Сумма', ''],
+        [1, 'Препарат А', 10, 1000, 'V'],
+      ]);
+
+      const result = parseWorkbook(filePath);
+
+      expect(result[0].unit).toBe('уп.');
+      expect(result[0].quantity).toBe(10);
+      expect(result[0].amount).toBe(1000);
+    });
+
+    it('should skip an extra empty column', () => {
+      const filePath = createWorkbook('test.xlsx', [
+        ['Товар - название', '', '', 'Ед.', 'Операции расхода', '', ''],
+        ['', '', '', '', 'Кол-во', 'Сумма', ''],
+        [1, 'Препарат А', '', 'уп.', 2, 125.6, 'V'],
+        ['', 'Примечание без кода', '', '', '', '', ''],
+      ]);
+
+      const result = parseWorkbook(filePath);
+
+      expect(result).toEqual([
+        { code: 1, name: 'Препарат А', unit: 'уп.', quantity: 2, amount: 125.6, ven: 'V' },
+      ]);
+    });
+
+    it('should use the first sheet that has a header', () => {
+      const filePath = path.join(testDir, 'multi.xlsx');
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Пояснения к отчёту']]), 'Info');
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([...standardHeader, [1, 'Препарат А', 'уп.', 10, 1000, 'N']]),
+        'Data'
+      );
+      XLSX.writeFile(workbook, filePath);
+
+      const result = parseWorkbook(filePath);
+
+      expect(result.length).toBe(1);
+      expect(result[0].ven).toBe('N');
+    });
+
+    it('should throw when no sheet has a header', () => {
+      const filePath = createWorkbook('test.xlsx', [['Пустой отчёт']]);
+
+      expect(() => parseWorkbook(filePath)).toThrow('Код, Товар, Кол-во, Сумма, VEN');
+    });
+
+    it('should read the requested sheet by name or index', () => {
+      const filePath = path.join(testDir, 'multi.xlsx');
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([...standardHeader, [1, 'Январь', 'уп.', 1, 100, 'V']]), 'Январь');
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([...standardHeader, [2, 'Февраль', 'уп.', 2, 200, 'E']]), 'Февраль');
+      XLSX.writeFile(workbook, filePath);
+
+      expect(parseWorkbook(filePath, { sheet: 'Февраль' })[0].name).toBe('Февраль');
+      expect(parseWorkbook(filePath, { sheet: 1 })[0].name).toBe('Февраль');
+      expect(() => parseWorkbook(filePath, { sheet: 'Март' })).toThrow('Март');
+    });
+
+    it('should apply skipRows, defaultUnit and venMap options', () => {
+      const filePath = createWorkbook('test.xlsx', [
+        ['Кол-во', 'Сумма', 'устаревшая шапка'],
+        ['Товар - название', '', 'Операции расхода', '', ''],
+        ['', '', 'Кол-во', 'Сумма', ''],
+        [1, 'Препарат А', 10, 1000, 'Ж'],
+        [2, 'Препарат Б', 5, 500, 'e'],
+      ]);
+
+      const result = parseWorkbook(filePath, { skipRows: 1, defaultUnit: 'фл.', venMap: { 'Ж': 'V' } });
+
+      expect(result).toEqual([
+        { code: 1, name: 'Препарат А', unit: 'фл.', quantity: 10, amount: 1000, ven: 'V' },
+        { code: 2, name: 'Препарат Б', unit: 'фл.', quantity: 5, amount: 500, ven: 'E' },
+      ]);
+    });
+
+    it('should read ODS files through parseFile', () => {
+      const filePath = createWorkbook('test.ods', [...standardHeader, [1, 'Препарат А', 'уп.', 10, 1000, 'V']]);
+
+      const result = parseFile(filePath);
+
+      expect(result.length).toBe(1);
+      expect(result[0].name).toBe('Препарат А');
+    });
+
+    it('should parse CSV files through parseFile', () => {
+      const filePath = createCSVFile('test.csv', createStandardCSV(['1,Препарат А,уп.,10,1000,V']));
+
+      const result = parseFile(filePath);
+
+      expect(result.length).toBe(1);
     });
   });
 });
@@ -1,73 +1,398 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { DrugItem, VENCategory } from './types';
+import * as XLSX from 'xlsx';
+import { DEFAULT_TOTALS_TOLERANCE } from './analyzer';
+import { isATCCode } from './atc';
+import { COLUMN_LABELS, ColumnDetectionOptions, ColumnLayout, detectColumns, findMissingColumns } from './columns';
+import { decodeText, detectDelimiter } from './csvFormat';
+import { readCSVRecords } from './csvReader';
+import { detectNumberLocale, parseLocaleNumber } from './numbers';
+import { createVENLookup } from './venDictionary';
+import {
+  CSVDelimiter,
+  CSVEncoding,
+  CSVFormat,
+  ColumnMapping,
+  DeclaredTotals,
+  DiagnosticSeverity,
+  DrugItem,
+  NumberLocale,
+  ParseDiagnostic,
+  ParseResult,
+  VENCategory,
+  VENConflict,
+  VENDictionaryEntry,
+} from './types';
 
-export function parseCSV(filePath: string): DrugItem[] {
+const WORKBOOK_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+
+// Unit used when the source report has no "Ед." column (e.g. гастро.xlsx)
+const DEFAULT_UNIT = 'уп.';
+
+export interface ParseOptions extends ColumnDetectionOptions {
+  /** Workbook sheet name or 0-based index; by default the first sheet with a usable header */
+  sheet?: string | number;
+  /** Rows ignored at the top of the table, before header detection */
+  skipRows?: number;
+  /** Unit used when the table has no unit column */
+  defaultUnit?: string;
+  /** Additional source values accepted as VEN categories, e.g. { "Ж": "V" } */
+  venMap?: Record<string, VENCategory>;
+  /** Number convention; detected per file when not given */
+  numberLocale?: NumberLocale;
+  /** CSV text encoding; by BOM, or UTF-8 falling back to windows-1251, when not given */
+  encoding?: CSVEncoding;
+  /** CSV cell delimiter; detected from the first lines when not given */
+  delimiter?: CSVDelimiter;
+  /** Formulary VEN decisions; they fill missing categories and override the file's */
+  venDictionary?: VENDictionaryEntry[];
+}
+
+// Positional layout of the original 4-header-line CSV, used when no header is recognized
+const LEGACY_CSV_LAYOUT: ColumnLayout = {
+  headerRow: -1,
+  dataStartRow: 4,
+  mapping: { code: 0, name: 1, unit: 2, quantity: 3, amount: 4, ven: 5 },
+};
+
+export function parseFile(filePath: string, options: ParseOptions = {}): DrugItem[] {
+  return parseFileWithDiagnostics(filePath, options).items;
+}
+
+export function parseCSV(filePath: string, options: ParseOptions = {}): DrugItem[] {
+  return parseCSVWithDiagnostics(filePath, options).items;
+}
+
+export function parseWorkbook(filePath: string, options: ParseOptions = {}): DrugItem[] {
+  return parseWorkbookWithDiagnostics(filePath, options).items;
+}
+
+/**
+ * Same as parseFile, but also reports every data row that was rejected
+ * or accepted with assumptions (see ParseDiagnostic).
+ */
+export function parseFileWithDiagnostics(filePath: string, options: ParseOptions = {}): ParseResult {
+  const extension = path.extname(filePath).toLowerCase();
+  if (WORKBOOK_EXTENSIONS.includes(extension)) {
+    return parseWorkbookWithDiagnostics(filePath, options);
+  }
+  return parseCSVWithDiagnostics(filePath, options);
+}
+
+export function parseCSVWithDiagnostics(filePath: string, options: ParseOptions = {}): ParseResult {
   const absolutePath = path.resolve(filePath);
-  const content = fs.readFileSync(absolutePath, 'utf-8');
-  const lines = content.split('\n');
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Файл не найден: ${absolutePath}`);
+  }
+  const { text, encoding, bom } = decodeText(fs.readFileSync(absolutePath), options.encoding);
+  const delimiter = options.delimiter ?? detectDelimiter(text.split(/\r?\n/));
+  // Columns and the number format are detected from the whole table, so all records are read first
+  const records = [...readCSVRecords(text, { delimiter })];
+
+  // Malformed records are rejected here; parseRows sees them as blank rows
+  const readerDiagnostics: ParseDiagnostic[] = [];
+  const cells = records.map((record) => {
+    if (record.error) {
+      readerDiagnostics.push({ line: record.line, raw: record.raw, reason: record.error, severity: 'error' });
+      return [];
+    }
+    return record.cells;
+  });
+
+  const rows = skipRows(cells, options.skipRows);
+  const layout = detectColumns(rows, detectionOptions(options)) ?? LEGACY_CSV_LAYOUT;
+  const result = parseRows(rows, records.map((record) => record.raw), layout, options, records.map((record) => record.line));
+  result.diagnostics = [...readerDiagnostics, ...result.diagnostics].sort((a, b) => a.line - b.line);
+  const csvFormat: CSVFormat = { encoding, delimiter, bom };
+  return { ...result, csvFormat };
+}
+
+/**
+ * Reads the requested sheet, or the first sheet whose columns can be mapped
+ * (by header text or the explicit mapping) to DrugItem fields.
+ */
+export function parseWorkbookWithDiagnostics(filePath: string, options: ParseOptions = {}): ParseResult {
+  const absolutePath = path.resolve(filePath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Файл не найден: ${absolutePath}`);
+  }
+
+  const workbook = XLSX.readFile(absolutePath);
+  const sheetNames = selectSheets(workbook.SheetNames, options.sheet);
+  if (sheetNames.length === 0) {
+    throw new Error(`Лист "${options.sheet}" не найден: ${absolutePath}`);
+  }
+
+  const missing: string[] = [];
+  for (const sheetName of sheetNames) {
+    const cells = readSheetRows(workbook.Sheets[sheetName]);
+    const rows = skipRows(cells, options.skipRows);
+    const layout = detectColumns(rows, detectionOptions(options));
+    if (layout) {
+      return parseRows(rows, cells.map((row) => row.join(',')), layout, options);
+    }
+    const fields = findMissingColumns(rows, detectionOptions(options));
+    missing.push(`лист "${sheetName}" — ${fields.map((field) => COLUMN_LABELS[field]).join(', ')}`);
+  }
+
+  throw new Error(`Не найдены обязательные столбцы (${missing.join('; ')}): ${absolutePath}`);
+}
+
+export function readSheetRows(sheet: XLSX.WorkSheet): string[][] {
+  const data: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '', raw: true });
+  return data.map((row) => row.map((cell) => String(cell ?? '')));
+}
+
+function detectionOptions(options: ParseOptions): ColumnDetectionOptions {
+  return {
+    ...options,
+    venValues: Object.keys(options.venMap ?? {}),
+    venOptional: options.venDictionary !== undefined,
+  };
+}
+
+function selectSheets(sheetNames: string[], sheet: string | number | undefined): string[] {
+  if (sheet === undefined) {
+    return sheetNames;
+  }
+  const name = typeof sheet === 'number' ? sheetNames[sheet] : sheetNames.find((candidate) => candidate === sheet);
+  return name !== undefined ? [name] : [];
+}
+
+/** Blanks out skipped rows so that row indexes still match the source */
+function skipRows(rows: string[][], count = 0): string[][] {
+  return rows.map((row, i) => (i < count ? [] : row));
+}
+
+/**
+ * Converts data rows to DrugItems. Blank rows and "Всего"/"Итого" totals
+ * are skipped silently; anything else that is not a valid item is reported.
+ */
+function parseRows(
+  rows: string[][],
+  raw: string[],
+  layout: ColumnLayout,
+  options: ParseOptions,
+  lineNumbers: number[] = rows.map((_, i) => i + 1)
+): ParseResult {
+  const { mapping } = layout;
+  const required = [mapping.code, mapping.name, mapping.quantity, mapping.amount, mapping.ven];
+  const columnCount = Math.max(...required.filter((col): col is number => col !== undefined)) + 1;
+  const lookupVEN = options.venDictionary ? createVENLookup(options.venDictionary) : undefined;
 
   const items: DrugItem[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const venConflicts: VENConflict[] = [];
+  let declaredTotals: DeclaredTotals | undefined;
 
-  // Skip header lines (1-4), data starts at line 5 (index 4)
-  for (let i = 4; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line || line.startsWith(',,Всего:')) {
+  const numberCells = rows
+    .slice(layout.dataStartRow)
+    .flatMap((row) => [row[mapping.quantity] ?? '', row[mapping.amount] ?? '']);
+  const { locale, confident, tie } = options.numberLocale
+    ? { locale: options.numberLocale, confident: true }
+    : detectNumberLocale(numberCells);
+  const assumption = tie ? '; признаков ru и en в файле поровну' : '';
+
+  const isBlank = (row: string[]): boolean => row.every((cell) => cell.trim() === '');
+  let lastRow = rows.length - 1;
+  while (lastRow >= layout.dataStartRow && isBlank(rows[lastRow])) {
+    lastRow--;
+  }
+  let itemsAmount = 0;
+
+  for (let i = layout.dataStartRow; i < rows.length; i++) {
+    const row = rows[i];
+    if (isBlank(row)) {
+      continue;
+    }
+
+    const report = (reason: string, severity: DiagnosticSeverity): void => {
+      diagnostics.push({ line: lineNumbers[i], raw: raw[i], reason, severity });
+    };
+
+    // Cells whose value depends on the convention are reported unless the file shows it elsewhere
+    const readNumber = (cell: string, column: string): number | null => {
+      const parsed = parseLocaleNumber(cell, locale);
+      if (parsed?.ambiguous && !confident) {
+        report(`неоднозначное число "${cell.trim()}" (${column}): принято ${parsed.value} по формату ${locale}${assumption}`, 'warning');
+      }
+      return parsed ? parsed.value : null;
+    };
+
+    const labeled = isLabeledTotalsRow(row);
+    if (labeled || hasNoItemFields(row, mapping)) {
+      const totals = readTotals(row, mapping, lineNumbers[i], readNumber);
+      // A row without code, name and VEN is only a footer at the end of the table or when it sums the items above
+      const sumsItems = totals?.amount !== undefined && Math.abs(totals.amount - itemsAmount) <= DEFAULT_TOTALS_TOLERANCE;
+      if (labeled || i === lastRow || sumsItems) {
+        // The last footer wins: it is the grand total when a report has subtotals
+        declaredTotals = totals ?? declaredTotals;
+      } else {
+        report('нет кода, наименования и VEN: строка не итоговая, её сумма не учтена', 'error');
+      }
       continue;
     }
 
-    const parsed = parseCSVLine(line);
-    if (parsed.length < 6) {
+    if (row.length < columnCount) {
+      report(`недостаточно колонок: ${row.length} из ${columnCount}`, 'error');
       continue;
     }
 
-    const code = parseInt(parsed[0], 10);
-    const name = parsed[1];
-    const unit = parsed[2];
-    const quantity = parseFloat(parsed[3].replace(',', '.')) || 0;
-    const amount = parseFloat(parsed[4].replace(',', '.')) || 0;
-    const ven = parsed[5].trim().toUpperCase() as VENCategory;
+    const fileVEN = mapping.ven !== undefined ? normalizeVEN(row[mapping.ven] ?? '', options.venMap) : '';
+    const codeText = row[mapping.code].trim();
+    const entry = lookupVEN?.(/^\d+$/.test(codeText) ? parseInt(codeText, 10) : undefined, row[mapping.name]);
 
-    if (isNaN(code) || !name || !['V', 'E', 'N'].includes(ven)) {
+    const item = createDrugItem(
+      row[mapping.code],
+      row[mapping.name],
+      mapping.unit !== undefined ? row[mapping.unit] ?? '' : options.defaultUnit ?? DEFAULT_UNIT,
+      row[mapping.quantity],
+      row[mapping.amount],
+      entry ? entry.ven : fileVEN,
+      report,
+      readNumber
+    );
+    if (!item) {
       continue;
     }
+    const atc = mapping.atc !== undefined ? (row[mapping.atc] ?? '').trim().toUpperCase() : '';
+    if (isATCCode(atc)) {
+      item.atc = atc;
+    } else if (atc) {
+      report(`некорректный код ATC "${atc}" пропущен`, 'warning');
+    }
+    items.push(item);
+    itemsAmount += item.amount;
 
-    items.push({
-      code,
-      name,
-      unit,
-      quantity,
-      amount,
-      ven,
-    });
+    // An invalid or empty file category is simply filled; a different valid one is a conflict
+    const fileCategory = fileVEN.toUpperCase();
+    if (entry && ['V', 'E', 'N'].includes(fileCategory) && fileCategory !== entry.ven) {
+      const conflict: VENConflict = {
+        line: lineNumbers[i],
+        code: item.code,
+        name: item.name,
+        fileVEN: fileCategory as VENCategory,
+        dictionaryVEN: entry.ven,
+      };
+      if (entry.rationale) {
+        conflict.rationale = entry.rationale;
+      }
+      venConflicts.push(conflict);
+    }
   }
 
-  return items;
+  const result: ParseResult = { items, diagnostics, numberLocale: locale };
+  if (declaredTotals) {
+    result.declaredTotals = declaredTotals;
+  }
+  if (lookupVEN) {
+    result.venConflicts = venConflicts;
+  }
+  return result;
 }
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
+/** Totals rows are labeled "Всего:"/"Итого" in some reports */
+function isLabeledTotalsRow(row: string[]): boolean {
+  return row.some((cell) => /^(всего|итого)(?![а-яё])/i.test(cell.trim()));
+}
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
+/**
+ * Other reports leave the totals row unlabeled, with only quantity and
+ * amount filled in (e.g. гастро.xlsx); a data row may look the same.
+ */
+function hasNoItemFields(row: string[], mapping: ColumnMapping): boolean {
+  return [mapping.code, mapping.name, mapping.ven].every(
+    (col) => col === undefined || (row[col] ?? '').trim() === ''
+  );
+}
 
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
+/**
+ * Reads the declared quantity and amount of a totals row. Values that are
+ * empty or not numbers (e.g. "=SUM(E5:E121)" formulas in CSV) are not declared.
+ */
+function readTotals(
+  row: string[],
+  mapping: ColumnMapping,
+  line: number,
+  readNumber: NumberReader
+): DeclaredTotals | undefined {
+  const quantity = readNumber(row[mapping.quantity] ?? '', 'количество');
+  const amount = readNumber(row[mapping.amount] ?? '', 'сумма');
+  const declared = (value: number | null): number | undefined =>
+    value !== null && !isNaN(value) ? value : undefined;
+
+  if (declared(quantity) === undefined && declared(amount) === undefined) {
+    return undefined;
   }
 
-  result.push(current);
-  return result;
+  return { line, quantity: declared(quantity), amount: declared(amount) };
+}
+
+function normalizeVEN(venCell: string, venMap: Record<string, VENCategory> = {}): string {
+  const value = venCell.trim();
+  return venMap[value] ?? venMap[value.toUpperCase()] ?? value;
+}
+
+/** Parses a number cell; empty cells give null, unparsable ones NaN */
+type NumberReader = (cell: string, column: string) => number | null;
+
+function createDrugItem(
+  codeCell: string,
+  nameCell: string,
+  unitCell: string,
+  quantityCell: string,
+  amountCell: string,
+  venCell: string,
+  report: (reason: string, severity: DiagnosticSeverity) => void,
+  readNumber: NumberReader
+): DrugItem | null {
+  const codeText = codeCell.trim();
+  const name = nameCell;
+  const unit = unitCell;
+  const quantity = readNumber(quantityCell, 'количество');
+  const amount = readNumber(amountCell, 'сумма');
+  const ven = venCell.trim().toUpperCase() as VENCategory;
+
+  // Stray notes without code and amount carry no spend
+  if (!codeText && amount === null) {
+    report('строка без кода и суммы пропущена', 'warning');
+    return null;
+  }
+
+  const errors: string[] = [];
+  if (!/^\d+$/.test(codeText)) {
+    errors.push(codeText ? `нечисловой код: "${codeText}"` : 'не указан код');
+  }
+  if (!name) {
+    errors.push('не указано наименование');
+  }
+  if (!['V', 'E', 'N'].includes(ven)) {
+    errors.push(ven ? `недопустимая категория VEN: "${venCell.trim()}"` : 'не указана категория VEN');
+  }
+  if (amount !== null && isNaN(amount)) {
+    errors.push(`нечисловая сумма: "${amountCell.trim()}"`);
+  }
+
+  if (errors.length > 0) {
+    report(errors.join('; '), 'error');
+    return null;
+  }
+
+  if (amount === null) {
+    report('не указана сумма, принято 0', 'warning');
+  }
+  if (quantity === null) {
+    report('не указано количество, принято 0', 'warning');
+  } else if (isNaN(quantity)) {
+    report(`нечисловое количество "${quantityCell.trim()}", принято 0`, 'warning');
+  }
+
+  return {
+    code: parseInt(codeText, 10),
+    name,
+    unit,
+    quantity: quantity !== null && !isNaN(quantity) ? quantity : 0,
+    amount: amount ?? 0,
+    ven,
+  };
 }
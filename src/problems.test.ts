@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { PROBLEM_ACTIONS, getProblemItems, summarizeProblems } from './problems';
+import { AnalyzedItem } from './types';
+
+const item = (code: number, amount: number, abc: 'A' | 'B' | 'C', ven: 'V' | 'E' | 'N', quantity = 1): AnalyzedItem => ({
+  code,
+  name: `Препарат ${code}`,
+  unit: 'уп.',
+  quantity,
+  amount,
+  ven,
+  abc,
+  percentOfTotal: amount / 1000,
+  cumulativePercent: 0,
+});
+
+const items = [
+  item(1, 40000, 'A', 'V'),
+  item(2, 500, 'C', 'N', 4),
+  item(3, 30000, 'A', 'N', 3),
+  item(4, 900, 'C', 'N', 0),
+  item(5, 20000, 'B', 'E'),
+  item(6, 8600, 'B', 'N', 2),
+];
+
+describe('getProblemItems', () => {
+  it('should keep only the AN, BN and CN items, by category and then largest first', () => {
+    const problems = getProblemItems(items);
+
+    expect(problems.map((problem) => [problem.category, problem.item.code])).toEqual([
+      ['AN', 3],
+      ['BN', 6],
+      ['CN', 4],
+      ['CN', 2],
+    ]);
+  });
+
+  it('should suggest the action of the category', () => {
+    expect(getProblemItems(items).map((problem) => problem.action)).toEqual(['review', 'optimize', 'exclude', 'exclude']);
+    expect(PROBLEM_ACTIONS.CN.recommendation).toContain('исключение из формуляра');
+  });
+
+  it('should give the unit price unless the quantity is not positive', () => {
+    const problems = getProblemItems(items);
+
+    expect(problems[0].unitPrice).toBe(10000);
+    expect(problems[3].unitPrice).toBe(125);
+    expect(problems[2]).not.toHaveProperty('unitPrice');
+  });
+});
+
+describe('summarizeProblems', () => {
+  it('should total each category as the saving if its items were removed', () => {
+    expect(summarizeProblems(getProblemItems(items))).toEqual([
+      { category: 'AN', action: 'review', count: 1, amount: 30000, percentAmount: 30 },
+      { category: 'BN', action: 'optimize', count: 1, amount: 8600, percentAmount: 8.6 },
+      { category: 'CN', action: 'exclude', count: 2, amount: 1400, percentAmount: 1.4 },
+    ]);
+  });
+
+  it('should list empty categories', () => {
+    expect(summarizeProblems([]).map((summary) => [summary.category, summary.count, summary.amount])).toEqual([
+      ['AN', 0, 0],
+      ['BN', 0, 0],
+      ['CN', 0, 0],
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { AnalyzedItem, ProblemAction, ProblemCategory, ProblemCategorySummary, ProblemItem } from './types';
+
+export const PROBLEM_CATEGORIES: ProblemCategory[] = ['AN', 'BN', 'CN'];
+
+/** Action suggested for each problem category, with the recommendation behind it */
+export const PROBLEM_ACTIONS: Record<ProblemCategory, { action: ProblemAction; recommendation: string }> = {
+  AN: { action: 'review', recommendation: 'Высокие затраты на второстепенные препараты: пересмотреть целесообразность закупок' },
+  BN: { action: 'optimize', recommendation: 'Средние затраты на второстепенные препараты: оптимизировать закупки' },
+  CN: { action: 'exclude', recommendation: 'Низкие затраты на второстепенные препараты: рассмотреть исключение из формуляра' },
+};
+
+export const PROBLEM_ACTION_LABELS: Record<ProblemAction, string> = {
+  review: 'пересмотр',
+  optimize: 'оптимизация',
+  exclude: 'кандидат на исключение',
+};
+
+/** Items of the AN, BN and CN cells, by category and then largest spend first */
+export function getProblemItems(items: AnalyzedItem[]): ProblemItem[] {
+  const problems: ProblemItem[] = [];
+
+  for (const item of items) {
+    const category = `${item.abc}${item.ven}` as ProblemCategory;
+    if (!PROBLEM_CATEGORIES.includes(category)) {
+      continue;
+    }
+    const problem: ProblemItem = { item, category, action: PROBLEM_ACTIONS[category].action };
+    if (item.quantity > 0) {
+      problem.unitPrice = item.amount / item.quantity;
+    }
+    problems.push(problem);
+  }
+
+  return problems.sort(
+    (a, b) => PROBLEM_CATEGORIES.indexOf(a.category) - PROBLEM_CATEGORIES.indexOf(b.category) || b.item.amount - a.item.amount
+  );
+}
+
+/** Count and spend of each problem category, including empty ones */
+export function summarizeProblems(problems: ProblemItem[]): ProblemCategorySummary[] {
+  return PROBLEM_CATEGORIES.map((category) => {
+    const items = problems.filter((problem) => problem.category === category);
+    return {
+      category,
+      action: PROBLEM_ACTIONS[category].action,
+      count: items.length,
+      amount: items.reduce((sum, problem) => sum + problem.item.amount, 0),
+      percentAmount: items.reduce((sum, problem) => sum + problem.item.percentOfTotal, 0),
+    };
+  });
+}
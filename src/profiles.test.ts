@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ConversionProfile,
+  expandProfileInputs,
+  findProfile,
+  globToRegExp,
+  loadConversionProfiles,
+} from './profiles';
+
+describe('globToRegExp', () => {
+  it('should match * and ? wildcards', () => {
+    expect(globToRegExp('*.xlsx').test('эндо.xlsx')).toBe(true);
+    expect(globToRegExp('*.xlsx').test('эндо.csv')).toBe(false);
+    expect(globToRegExp('отчёт_?.xlsx').test('отчёт_1.xlsx')).toBe(true);
+  });
+
+  it('should escape regular expression characters', () => {
+    expect(globToRegExp('a+b (1).xlsx').test('a+b (1).xlsx')).toBe(true);
+    expect(globToRegExp('a.xlsx').test('abxlsx')).toBe(false);
+  });
+
+  it('should be case-insensitive', () => {
+    expect(globToRegExp('*.XLSX').test('file.xlsx')).toBe(true);
+  });
+});
+
+describe('findProfile', () => {
+  const profiles: ConversionProfile[] = [
+    { name: 'гастро', input: 'гастро.xlsx', defaultUnit: 'фл.' },
+    { name: 'отделения', input: ['*.xlsx', '*.ods'] },
+  ];
+
+  it('should return the first matching profile', () => {
+    expect(findProfile(profiles, '/data/гастро.xlsx')?.name).toBe('гастро');
+    expect(findProfile(profiles, '/data/нерол.xlsx')?.name).toBe('отделения');
+    expect(findProfile(profiles, 'нерол.ods')?.name).toBe('отделения');
+  });
+
+  it('should return undefined when nothing matches', () => {
+    expect(findProfile(profiles, 'нерол.csv')).toBeUndefined();
+  });
+});
+
+describe('loadConversionProfiles / expandProfileInputs', () => {
+  const testDir = path.join(__dirname, '../test-profiles');
+  const profilesPath = path.join(testDir, 'profiles.json');
+
+  const writeProfiles = (data: unknown): void => {
+    fs.writeFileSync(profilesPath, JSON.stringify(data), 'utf-8');
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should load valid profiles', () => {
+    writeProfiles({
+      profiles: [
+        {
+          name: 'эндо',
+          input: 'эндо.xlsx',
+          sheet: 0,
+          skipRows: 1,
+          columns: { code: 0, name: 1 },
+          defaultUnit: 'уп.',
+          venMap: { 'Ж': 'V' },
+        },
+      ],
+    });
+
+    const profiles = loadConversionProfiles(profilesPath);
+
+    expect(profiles.length).toBe(1);
+    expect(profiles[0].venMap).toEqual({ 'Ж': 'V' });
+  });
+
+  it('should reject a file without a profiles array', () => {
+    writeProfiles({ name: 'эндо' });
+
+    expect(() => loadConversionProfiles(profilesPath)).toThrow('profiles');
+  });
+
+  it('should reject a profile without input', () => {
+    writeProfiles({ profiles: [{ name: 'эндо' }] });
+
+    expect(() => loadConversionProfiles(profilesPath)).toThrow('input');
+  });
+
+  it('should reject unknown profile fields', () => {
+    writeProfiles({ profiles: [{ name: 'эндо', input: '*.xlsx', skiprows: 2 }] });
+
+    expect(() => loadConversionProfiles(profilesPath)).toThrow('profiles[0]: неизвестное поле "skiprows"');
+  });
+
+  it('should reject unknown column fields and negative indexes', () => {
+    writeProfiles({ profiles: [{ name: 'эндо', input: '*.xlsx', columns: { price: 3 } }] });
+    expect(() => loadConversionProfiles(profilesPath)).toThrow('columns.price');
+
+    writeProfiles({ profiles: [{ name: 'эндо', input: '*.xlsx', columns: { code: -1 } }] });
+    expect(() => loadConversionProfiles(profilesPath)).toThrow('columns.code');
+  });
+
+  it('should reject VEN mappings to unknown categories', () => {
+    writeProfiles({ profiles: [{ name: 'эндо', input: '*.xlsx', venMap: { 'Ж': 'X' } }] });
+
+    expect(() => loadConversionProfiles(profilesPath)).toThrow('venMap');
+  });
+
+  it('should expand input patterns relative to the base directory', () => {
+    fs.mkdirSync(path.join(testDir, 'in'));
+    for (const name of ['b.xlsx', 'a.xlsx', 'c.csv']) {
+      fs.writeFileSync(path.join(testDir, 'in', name), '');
+    }
+    const profiles: ConversionProfile[] = [
+      { name: 'все', input: 'in/*.xlsx' },
+      { name: 'повтор', input: 'in/a.xlsx' },
+    ];
+
+    const files = expandProfileInputs(profiles, testDir);
+
+    expect(files).toEqual([path.join(testDir, 'in', 'a.xlsx'), path.join(testDir, 'in', 'b.xlsx')]);
+  });
+});
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { NUMBER_LOCALES } from './numbers';
+import { ParseOptions } from './parser';
+import { ColumnField } from './types';
+
+/**
+ * Conversion profile as stored in the profiles JSON file.
+ * `input` is a file name or glob (`*`, `?`) relative to the profiles file;
+ * the first profile matching an input file is applied to it.
+ */
+export interface ConversionProfile extends ParseOptions {
+  name: string;
+  input: string | string[];
+}
+
+const COLUMN_FIELDS: ColumnField[] = ['code', 'name', 'unit', 'quantity', 'amount', 'ven', 'atc'];
+
+// Keys a profile may have; anything else is most likely a misspelled option
+const PROFILE_KEYS = ['name', 'input', 'sheet', 'skipRows', 'dataStartRow', 'columns', 'defaultUnit', 'venMap', 'numberLocale'];
+
+export function loadConversionProfiles(filePath: string): ConversionProfile[] {
+  const absolutePath = path.resolve(filePath);
+  const data = JSON.parse(fs.readFileSync(absolutePath, 'utf-8'));
+
+  if (!data || !Array.isArray(data.profiles)) {
+    throw new Error(`${absolutePath}: ожидается объект с массивом "profiles"`);
+  }
+
+  return data.profiles.map((profile: unknown, index: number) => validateProfile(profile, `${absolutePath}: profiles[${index}]`));
+}
+
+function validateProfile(value: unknown, context: string): ConversionProfile {
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`${context}: профиль должен быть объектом`);
+  }
+  const profile = value as ConversionProfile;
+
+  const unknown = Object.keys(profile).find((key) => !PROFILE_KEYS.includes(key));
+  if (unknown !== undefined) {
+    throw new Error(`${context}: неизвестное поле "${unknown}" (допустимы: ${PROFILE_KEYS.join(', ')})`);
+  }
+  if (typeof profile.name !== 'string' || !profile.name) {
+    throw new Error(`${context}: не указано имя профиля (name)`);
+  }
+  const inputs = ([] as unknown[]).concat(profile.input);
+  if (inputs.length === 0 || inputs.some((input) => typeof input !== 'string' || !input)) {
+    throw new Error(`${context}: не указан входной файл или маска (input)`);
+  }
+  if (profile.sheet !== undefined && typeof profile.sheet !== 'string' && !isIndex(profile.sheet)) {
+    throw new Error(`${context}: sheet должен быть именем листа или его номером`);
+  }
+  if (profile.skipRows !== undefined && !isIndex(profile.skipRows)) {
+    throw new Error(`${context}: skipRows должен быть неотрицательным целым числом`);
+  }
+  if (profile.dataStartRow !== undefined && !isIndex(profile.dataStartRow)) {
+    throw new Error(`${context}: dataStartRow должен быть неотрицательным целым числом`);
+  }
+  if (profile.defaultUnit !== undefined && typeof profile.defaultUnit !== 'string') {
+    throw new Error(`${context}: defaultUnit должен быть строкой`);
+  }
+  if (profile.numberLocale !== undefined && !NUMBER_LOCALES.includes(profile.numberLocale)) {
+    throw new Error(`${context}: numberLocale должен быть одним из: ${NUMBER_LOCALES.join(', ')}`);
+  }
+  for (const [field, col] of Object.entries(profile.columns ?? {})) {
+    if (!COLUMN_FIELDS.includes(field as ColumnField) || !isIndex(col)) {
+      throw new Error(`${context}: некорректная колонка columns.${field}`);
+    }
+  }
+  for (const [source, ven] of Object.entries(profile.venMap ?? {})) {
+    if (!['V', 'E', 'N'].includes(ven)) {
+      throw new Error(`${context}: venMap["${source}"] должен быть V, E или N`);
+    }
+  }
+
+  return profile;
+}
+
+function isIndex(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '[^/]*';
+      if (char === '?') return '[^/]';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function profileInputs(profile: ConversionProfile): string[] {
+  return ([] as string[]).concat(profile.input);
+}
+
+/** Finds the first profile whose input pattern matches the file name */
+export function findProfile(profiles: ConversionProfile[], filePath: string): ConversionProfile | undefined {
+  const fileName = path.basename(filePath);
+  return profiles.find((profile) =>
+    profileInputs(profile).some((pattern) => globToRegExp(path.basename(pattern)).test(fileName))
+  );
+}
+
+/**
+ * Lists files matched by the profiles' input patterns. Patterns may contain
+ * wildcards in the file name only; directories are resolved against baseDir.
+ */
+export function expandProfileInputs(profiles: ConversionProfile[], baseDir: string): string[] {
+  const files = new Set<string>();
+
+  for (const profile of profiles) {
+    for (const pattern of profileInputs(profile)) {
+      const dir = path.resolve(baseDir, path.dirname(pattern));
+      if (!fs.existsSync(dir)) {
+        continue;
+      }
+      const regExp = globToRegExp(path.basename(pattern));
+      for (const entry of fs.readdirSync(dir).sort()) {
+        if (regExp.test(entry)) {
+          files.add(path.join(dir, entry));
+        }
+      }
+    }
+  }
+
+  return [...files];
+}
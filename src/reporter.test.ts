@@ -7,11 +7,40 @@ import {
   generateTable1,
   generateTable2,
   generateTable3,
+  generateTable4,
   generateCSVReport,
   generateConsoleSummary,
   generateTextReport,
+  generateDiagnosticsReport,
+  formatDiagnosticsSummary,
+  formatTotalsReconciliation,
+  formatDepartmentTotals,
+  generateDepartmentReport,
+  generateMigrationTable,
+  formatComparison,
+  generateComparisonReport,
+  formatExcludedItems,
+  generateAdjustedTable,
+  formatVENConflicts,
+  formatCodeConflicts,
+  generateVENConflictsReport,
+  formatVENInconsistencies,
+  generateVENConsistencyReport,
+  generateINNReport,
+  formatNameParsing,
+  generateNameReport,
+  generateATCTable,
+  generateATCReport,
+  formatDDD,
+  generateDDDReport,
+  formatProblemItems,
+  generateProblemReport,
 } from './reporter';
-import { AnalyzedItem, ABCSummary, VENSummary, ABCCategory, VENCategory } from './types';
+import { comparePeriods } from './comparison';
+import { parseFileWithDiagnostics } from './parser';
+import { analyzeABC, getABCVENMatrix, getVENDistributionByABC } from './analyzer';
+import { getProblemItems } from './problems';
+import { AnalyzedItem, ABCSummary, VENSummary, ABCCategory, VENCategory, ParseDiagnostic, MergedItem, AdjustedAnalysis, VENConflict, VENInconsistency, INNAssignment, DrugItem, ATCGroupSummary, CategoryStats, DDDResult } from './types';
 
 describe('formatAmount', () => {
   // Helper to normalize spaces (locale may use non-breaking space \u00A0 or \u202F)
@@ -303,6 +332,41 @@ describe('generateTable3 (ABC/VEN Matrix)', () => {
   });
 });
 
+describe('generateTable4 (ABC/VEN Matrix of the total)', () => {
+  const matrix = getABCVENMatrix(
+    analyzeABC([
+      { code: 1, name: 'Препарат А', unit: 'уп.', quantity: 1, amount: 7000, ven: 'V' },
+      { code: 2, name: 'Препарат Б', unit: 'уп.', quantity: 2, amount: 1500, ven: 'N' },
+      { code: 3, name: 'Препарат В', unit: 'фл.', quantity: 3, amount: 1000, ven: 'E' },
+      { code: 4, name: 'Препарат Г', unit: 'уп.', quantity: 4, amount: 500, ven: 'N' },
+    ])
+  );
+
+  it('should show the four indicators of each group with row totals', () => {
+    const lines = generateTable4(matrix).split('\n');
+
+    expect(lines[0]).toBe('Таблица 4. Матрица ABC/VEN (% от общего числа МНН и общих затрат)');
+    expect(lines[2]).toMatch(/^│ Группа │ Показатель +│ V +│ E +│ N +│ Итого +│$/);
+    expect(lines[4].split('│').map((cell) => cell.trim())).toEqual(['', 'A', 'Число МНН', '1', '0', '1', '2', '']);
+    expect(lines[5].split('│').map((cell) => cell.trim())).toEqual(['', '', '% МНН', '25.00%', '0.00%', '25.00%', '50.00%', '']);
+    expect(lines[7].split('│').map((cell) => cell.trim())).toEqual(['', '', '% затрат', '70.00%', '0.00%', '15.00%', '85.00%', '']);
+  });
+
+  it('should end with the column totals', () => {
+    const lines = generateTable4(matrix).split('\n');
+    const totals = lines.slice(-5, -1).map((line) => line.split('│').map((cell) => cell.trim()));
+
+    expect(totals[0]).toEqual(['', 'Итого', 'Число МНН', '1', '1', '2', '4', '']);
+    expect(totals[3]).toEqual(['', '', '% затрат', '70.00%', '10.00%', '20.00%', '100.00%', '']);
+  });
+
+  it('should keep all rows the same width', () => {
+    const widths = new Set(generateTable4(matrix).split('\n').slice(1).map((line) => line.length));
+
+    expect(widths.size).toBe(1);
+  });
+});
+
 describe('generateCSVReport', () => {
   const testDir = path.join(__dirname, '../test-output');
   const testFile = path.join(testDir, 'test_report.csv');
@@ -340,7 +404,7 @@ describe('generateCSVReport', () => {
     generateCSVReport(items, testFile);
 
     const content = fs.readFileSync(testFile, 'utf-8');
-    expect(content).toContain('Код;Товар;Сумма;% от общей;Накопл. %;ABC;VEN');
+    expect(content).toContain('Код;Товар;Ед.;Кол-во;Сумма;% от общей;Накопл. %;ABC;VEN');
   });
 
   it('should include all items', () => {
@@ -363,6 +427,28 @@ describe('generateCSVReport', () => {
     expect(content).toContain('"Препарат с, запятой"');
   });
 
+  it('should escape quotes in names', () => {
+    const items: AnalyzedItem[] = [
+      { code: 1, name: 'Раствор "Б"', unit: 'фл.', quantity: 2.5, amount: 1000, ven: 'V', percentOfTotal: 100, cumulativePercent: 100, abc: 'A' },
+    ];
+    generateCSVReport(items, testFile);
+
+    const content = fs.readFileSync(testFile, 'utf-8');
+    expect(content).toContain('1;"Раствор ""Б""";"фл.";2.5;1000.00;100.00;100.00;A;V');
+  });
+
+  it('should be readable by the parser', () => {
+    const items = createAnalyzedItems();
+    generateCSVReport(items, testFile);
+
+    const result = parseFileWithDiagnostics(testFile);
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.items).toEqual(
+      items.map(({ code, name, unit, quantity, amount, ven }) => ({ code, name, unit, quantity, amount, ven }))
+    );
+  });
+
   it('should create directory if not exists', () => {
     const nestedDir = path.join(testDir, 'nested', 'deep');
     const nestedFile = path.join(nestedDir, 'report.csv');
@@ -457,6 +543,42 @@ describe('generateConsoleSummary', () => {
     expect(result).toContain('Таблица 3. Матрица ABC/VEN');
   });
 
+  it('should state ABC thresholds and strategy when options are given', () => {
+    const { summary, venSummary, venDistribution } = createTestData();
+    const result = generateConsoleSummary(summary, venSummary, venDistribution, 100000, 100, {
+      abcOptions: { thresholds: { a: 75, b: 95 }, strategy: 'nearest' },
+    });
+
+    expect(result).toContain('Границы ABC: A до 75%, B до 95%');
+    expect(result).toContain('к ближайшей границе');
+  });
+
+  it('should include the totals reconciliation when given', () => {
+    const { summary, venSummary, venDistribution } = createTestData();
+    const result = generateConsoleSummary(summary, venSummary, venDistribution, 100000, 100, {
+      totals: {
+        line: 105,
+        tolerance: 0.01,
+        matches: false,
+        checks: [{ field: 'amount', declared: 120000, parsed: 100000, difference: -20000, withinTolerance: false }],
+      },
+    });
+
+    expect(result).toContain('ВНИМАНИЕ: загруженные данные не совпадают с итоговой строкой 105');
+  });
+
+  it('should include Table 4 when the matrix is given', () => {
+    const { summary, venSummary, venDistribution } = createTestData();
+    const matrix = getABCVENMatrix([
+      { code: 1, name: 'Препарат', unit: 'уп.', quantity: 1, amount: 100000, ven: 'V', abc: 'A', percentOfTotal: 100, cumulativePercent: 100 },
+    ]);
+
+    expect(generateConsoleSummary(summary, venSummary, venDistribution, 100000, 100)).not.toContain('Таблица 4');
+    expect(generateConsoleSummary(summary, venSummary, venDistribution, 100000, 100, { matrix })).toContain(
+      'Таблица 4. Матрица ABC/VEN'
+    );
+  });
+
   it('should include decorative borders', () => {
     const { summary, venSummary, venDistribution } = createTestData();
     const result = generateConsoleSummary(summary, venSummary, venDistribution, 100000, 100);
@@ -603,6 +725,7 @@ describe('generateTextReport', () => {
     expect(content).toContain('Таблица 1');
     expect(content).toContain('Таблица 2');
     expect(content).toContain('Таблица 3');
+    expect(content).toContain('Таблица 4');
   });
 
   it('should create directory if not exists', () => {
@@ -648,3 +771,581 @@ describe('generateTextReport', () => {
     fs.rmSync(path.join(testDir, 'nested'), { recursive: true });
   });
 });
+
+describe('diagnostics output', () => {
+  const testDir = path.join(__dirname, '../test-output-diagnostics');
+  const testFile = path.join(testDir, 'test_diagnostics.csv');
+
+  const diagnostics: ParseDiagnostic[] = [
+    { line: 6, raw: '2,"Препарат ""Б""",уп.,10,abc,V', reason: 'нечисловая сумма: "abc"', severity: 'error' },
+    { line: 9, raw: ',Примечание,,,,', reason: 'строка без кода и суммы пропущена', severity: 'warning' },
+  ];
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should summarize errors and warnings', () => {
+    const result = formatDiagnosticsSummary(diagnostics);
+
+    expect(result).toContain('Отклонено строк: 1, предупреждений: 1');
+    expect(result).toContain('строка 6: ОШИБКА: нечисловая сумма: "abc"');
+    expect(result).toContain('строка 9: ПРЕДУПРЕЖДЕНИЕ');
+  });
+
+  it('should limit the number of listed diagnostics', () => {
+    const result = formatDiagnosticsSummary(diagnostics, 1);
+
+    expect(result).not.toContain('строка 9');
+    expect(result).toContain('... и ещё 1');
+  });
+
+  it('should write diagnostics CSV with escaped fields', () => {
+    generateDiagnosticsReport(diagnostics, testFile);
+
+    const lines = fs.readFileSync(testFile, 'utf-8').split('\n');
+    expect(lines[0]).toBe('Строка;Уровень;Причина;Исходная строка');
+    expect(lines[1]).toBe('6;error;"нечисловая сумма: ""abc""";"2,""Препарат """"Б"""""",уп.,10,abc,V"');
+    expect(lines.length).toBe(3);
+  });
+});
+
+describe('formatTotalsReconciliation', () => {
+  const normalizeSpaces = (s: string) => s.replace(/[\u00A0\u202F]/g, ' ');
+
+  it('should report matching totals', () => {
+    const result = formatTotalsReconciliation({
+      line: 122,
+      tolerance: 0.01,
+      matches: true,
+      checks: [
+        { field: 'quantity', declared: 2364, parsed: 2364, difference: 0, withinTolerance: true },
+        { field: 'amount', declared: 28771178.57, parsed: 28771178.57, difference: 0, withinTolerance: true },
+      ],
+    });
+
+    expect(result).toContain('Контроль итога (итоговая строка 122): совпадает');
+    expect(normalizeSpaces(result)).toContain('Количество: заявлено 2 364, загружено 2 364 — OK');
+    expect(normalizeSpaces(result)).toContain('Сумма: заявлено 28 771 178,57, загружено 28 771 178,57 — OK');
+  });
+
+  it('should report the difference for mismatching totals', () => {
+    const result = formatTotalsReconciliation({
+      line: 7,
+      tolerance: 0.01,
+      matches: false,
+      checks: [{ field: 'amount', declared: 200, parsed: 150, difference: -50, withinTolerance: false }],
+    });
+
+    expect(result).toContain('ВНИМАНИЕ');
+    expect(result).toContain('Сумма: заявлено 200,00, загружено 150,00 — расхождение -50,00');
+  });
+});
+
+describe('department output', () => {
+  const testDir = path.join(__dirname, '../test-output-departments');
+  const testFile = path.join(testDir, 'test_departments.csv');
+  const normalizeSpaces = (s: string) => s.replace(/[\u00A0\u202F]/g, ' ');
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should list department totals', () => {
+    const result = formatDepartmentTotals([
+      { department: 'ОПН', count: 117, amount: 28771178.57, percentAmount: 92.3 },
+      { department: 'эндо', count: 161, amount: 1311568.87, percentAmount: 7.7 },
+    ]);
+
+    expect(result).toContain('Объединено отделений: 2');
+    expect(normalizeSpaces(result)).toContain('ОПН    117 поз.     28 771 178,57 руб.   92.30%');
+  });
+
+  it('should write amounts per department', () => {
+    const items: (AnalyzedItem & MergedItem)[] = [
+      {
+        code: 1, name: 'Препарат A', unit: 'уп.', quantity: 3, amount: 300, ven: 'V', percentOfTotal: 75, cumulativePercent: 75, abc: 'A',
+        departments: [{ department: 'ОПН', quantity: 1, amount: 100 }, { department: 'эндо', quantity: 2, amount: 200 }],
+      },
+      {
+        code: 2, name: 'Препарат B', unit: 'уп.', quantity: 1, amount: 100, ven: 'E', percentOfTotal: 25, cumulativePercent: 100, abc: 'C',
+        departments: [{ department: 'эндо', quantity: 1, amount: 100 }],
+      },
+    ];
+
+    generateDepartmentReport(items, ['ОПН', 'эндо'], testFile);
+
+    expect(fs.readFileSync(testFile, 'utf-8').split('\n')).toEqual([
+      'Код;Товар;ABC;VEN;Сумма;"ОПН";"эндо"',
+      '1;"Препарат A";A;V;300.00;100.00;200.00',
+      '2;"Препарат B";C;E;100.00;;100.00',
+    ]);
+  });
+
+  it('should show department totals in the report header', () => {
+    const empty = { count: 0, amount: 0, percentCount: 0, percentAmount: 0 };
+    const venDistribution = {
+      A: { V: empty, E: empty, N: empty },
+      B: { V: empty, E: empty, N: empty },
+      C: { V: empty, E: empty, N: empty },
+    };
+
+    const result = generateConsoleSummary([], [], venDistribution, 0, 0, {
+      departments: [{ department: 'ОПН', count: 0, amount: 0, percentAmount: 0 }],
+    });
+
+    expect(result).toContain('Объединено отделений: 1');
+  });
+});
+
+describe('period comparison output', () => {
+  const testDir = path.join(__dirname, '../test-output-comparison');
+  const testFile = path.join(testDir, 'test_comparison.csv');
+  const normalizeSpaces = (s: string) => s.replace(/[\u00A0\u202F]/g, ' ');
+
+  const item = (code: number, name: string, amount: number, abc: ABCCategory, ven: VENCategory): AnalyzedItem => ({
+    code, name, unit: 'уп.', quantity: 1, amount, ven, percentOfTotal: 0, cumulativePercent: 0, abc,
+  });
+  const comparison = comparePeriods(
+    [item(1, 'Препарат A', 1000, 'A', 'V'), item(2, 'Препарат B', 200, 'C', 'E')],
+    [item(1, 'Препарат A', 500, 'B', 'V'), item(3, 'Препарат "C"', 300, 'A', 'N')]
+  );
+  const labels = { before: '2024', after: '2025' };
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should draw the 9x9 migration table', () => {
+    const lines = generateMigrationTable(comparison.migration, labels).split('\n');
+
+    expect(lines[0]).toBe('Таблица миграции ABC/VEN (число позиций; строки — 2024, столбцы — 2025)');
+    expect(lines[2]).toBe('│ было │  AV │  AE │  AN │  BV │  BE │  BN │  CV │  CE │  CN │');
+    expect(lines[4]).toBe('│ AV   │   · │   · │   · │   1 │   · │   · │   · │   · │   · │');
+    expect(lines).toHaveLength(14);
+  });
+
+  it('should summarize totals, movers, new and discontinued items', () => {
+    const result = normalizeSpaces(formatComparison(comparison, labels));
+
+    expect(result).toContain('Сумма: 1 200,00 → 800,00 руб., изменение -400,00 руб. (-33.33%)');
+    expect(result).toContain('Новых позиций: 1 на сумму 300,00 руб.');
+    expect(result).toContain('Выбывших позиций: 1 на сумму 200,00 руб.');
+    expect(result).toContain('1. Препарат A: AV → BV, 1 000,00 → 500,00 руб. (-500,00)');
+    expect(result).toContain('1. Препарат "C": 300,00 руб. (AN)');
+    expect(result).toContain('1. Препарат B: 200,00 руб. (CE)');
+  });
+
+  it('should write one CSV row per drug', () => {
+    generateComparisonReport(comparison, testFile);
+
+    expect(fs.readFileSync(testFile, 'utf-8').split('\n')).toEqual([
+      'Код;Товар;Статус;Сумма 1;Сумма 2;Изменение;Изменение %;Ячейка 1;Ячейка 2',
+      '1;"Препарат A";сохранилась;1000.00;500.00;-500.00;-50.00;AV;BV',
+      '3;"Препарат ""C""";новая;;300.00;300.00;;;AN',
+      '2;"Препарат B";выбыла;200.00;;-200.00;-100.00;CE;',
+    ]);
+  });
+});
+
+describe('adjusted analysis output', () => {
+  const normalizeSpaces = (s: string) => s.replace(/[\u00A0\u202F]/g, ' ');
+
+  const summary: ABCSummary[] = [
+    { category: 'A', count: 1, amount: 900, percentCount: 25, percentAmount: 90 },
+    { category: 'B', count: 1, amount: 60, percentCount: 25, percentAmount: 6 },
+    { category: 'C', count: 2, amount: 40, percentCount: 50, percentAmount: 4 },
+  ];
+  const venSummary: VENSummary[] = [
+    { category: 'V', count: 4, amount: 1000, percentCount: 100, percentAmount: 100 },
+    { category: 'E', count: 0, amount: 0, percentCount: 0, percentAmount: 0 },
+    { category: 'N', count: 0, amount: 0, percentCount: 0, percentAmount: 0 },
+  ];
+  const adjusted: AdjustedAnalysis = {
+    excluded: [{ code: 408, name: 'Синагис', unit: 'уп.', quantity: 1, amount: 900, ven: 'V', percentOfTotal: 90, reason: 'код 408' }],
+    summary: [
+      { category: 'A', count: 1, amount: 60, percentCount: 33.33, percentAmount: 60 },
+      { category: 'B', count: 1, amount: 30, percentCount: 33.33, percentAmount: 30 },
+      { category: 'C', count: 1, amount: 10, percentCount: 33.33, percentAmount: 10 },
+    ],
+    venSummary: [
+      { category: 'V', count: 3, amount: 100, percentCount: 100, percentAmount: 100 },
+      { category: 'E', count: 0, amount: 0, percentCount: 0, percentAmount: 0 },
+      { category: 'N', count: 0, amount: 0, percentCount: 0, percentAmount: 0 },
+    ],
+    totalAmount: 100,
+    totalCount: 3,
+  };
+
+  it('should list excluded items with amounts and reasons', () => {
+    const result = normalizeSpaces(formatExcludedItems(adjusted.excluded));
+
+    expect(result).toContain('Исключено из скорректированного анализа: 1 поз. на сумму 900,00 руб. (90.00% затрат)');
+    expect(result).toContain('408  Синагис — 900,00 руб. (90.00%); код 408');
+  });
+
+  it('should show full and adjusted groups side by side', () => {
+    const lines = normalizeSpaces(generateAdjustedTable(summary, venSummary, 1000, 4, adjusted)).split('\n');
+
+    expect(lines).toContain('│ A         │     1 │          900,00 │  90.00% │     1 │           60,00 │  60.00% │');
+    expect(lines).toContain('│ Итого     │     4 │        1 000,00 │ 100.00% │     3 │          100,00 │ 100.00% │');
+    expect(new Set(lines.slice(1).map((line) => line.length)).size).toBe(1);
+  });
+
+  it('should include the comparison in the summary when given', () => {
+    const empty = { count: 0, amount: 0, percentCount: 0, percentAmount: 0 };
+    const venDistribution = {
+      A: { V: empty, E: empty, N: empty },
+      B: { V: empty, E: empty, N: empty },
+      C: { V: empty, E: empty, N: empty },
+    };
+
+    const result = generateConsoleSummary(summary, venSummary, venDistribution, 1000, 4, { adjusted });
+
+    expect(result).toContain('Полный анализ и анализ без исключённых позиций');
+    expect(result).toContain('Исключено из скорректированного анализа: 1 поз.');
+  });
+});
+
+describe('code conflicts output', () => {
+  it('should warn with each code and its names', () => {
+    const conflicts = [
+      { code: 2, names: [{ department: 'эндо', name: 'Аевит' }, { department: 'гастро', name: 'Азатиоприн' }] },
+      { code: 5, names: [{ department: 'эндо', name: 'Б' }, { department: 'гастро', name: 'В' }] },
+    ];
+    const lines = formatCodeConflicts(conflicts, 1).split('\n');
+
+    expect(lines[0]).toContain('ВНИМАНИЕ: кодов с разными наименованиями: 2');
+    expect(lines[1]).toBe('  код 2: Аевит (эндо); Азатиоприн (гастро)');
+    expect(lines[2]).toBe('  ... и ещё 1');
+  });
+});
+
+describe('VEN conflicts output', () => {
+  const testDir = path.join(__dirname, '../test-output-ven-conflicts');
+  const testFile = path.join(testDir, 'test_ven_conflicts.csv');
+
+  const conflicts: VENConflict[] = [
+    { line: 7, code: 8, name: 'Азитромицин капс. 250мг.№6', fileVEN: 'V', dictionaryVEN: 'E', rationale: 'решение ФК' },
+    { line: 12, code: 15, name: 'Препарат "Б"', fileVEN: 'N', dictionaryVEN: 'V' },
+  ];
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should list conflicts with both categories', () => {
+    const result = formatVENConflicts(conflicts, 1);
+
+    expect(result).toContain('Расхождений со справочником VEN: 2');
+    expect(result).toContain('строка 7: 8 Азитромицин капс. 250мг.№6: в файле V, по справочнику E (решение ФК)');
+    expect(result).toContain('... и ещё 1');
+  });
+
+  it('should write conflicts CSV with escaped fields', () => {
+    generateVENConflictsReport(conflicts, testFile);
+
+    const lines = fs.readFileSync(testFile, 'utf-8').split('\n');
+    expect(lines[0]).toBe('Строка;Код;Товар;VEN в файле;VEN по справочнику;Обоснование');
+    expect(lines[2]).toBe('12;15;"Препарат ""Б""";N;V;""');
+    expect(lines.length).toBe(3);
+  });
+});
+
+describe('VEN consistency output', () => {
+  const normalizeSpaces = (s: string) => s.replace(/[\u00A0\u202F]/g, ' ');
+  const testDir = path.join(__dirname, '../test-output-ven-consistency');
+  const testFile = path.join(testDir, 'test_ven_consistency.csv');
+
+  const inconsistencies: VENInconsistency[] = [
+    {
+      code: 8,
+      name: 'Апротинин "Гордокс"',
+      departments: [
+        { department: 'гастро', ven: 'V', quantity: 1, amount: 500 },
+        { department: 'педиатрия', ven: 'E', quantity: 3, amount: 1500 },
+        { department: 'педиатрия', ven: 'V', quantity: 1, amount: 500 },
+      ],
+      amountByVEN: { V: 1000, E: 1500, N: 0 },
+      totalAmount: 2500,
+    },
+    {
+      code: 80,
+      name: 'Боботик',
+      departments: [
+        { department: 'ОПН', ven: 'E', quantity: 1, amount: 40 },
+        { department: 'гастро', ven: 'N', quantity: 1, amount: 60 },
+      ],
+      amountByVEN: { V: 0, E: 40, N: 60 },
+      totalAmount: 100,
+    },
+  ];
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should list departments under each category', () => {
+    const result = normalizeSpaces(formatVENInconsistencies(inconsistencies, 1));
+
+    expect(result).toContain('Препаратов с разной категорией VEN в отделениях: 2 на сумму 2 600,00 руб.');
+    expect(result).toContain('1. 8  Апротинин "Гордокс" — 2 500,00 руб.');
+    expect(result).toContain('V: 1 000,00 руб. — гастро (500,00 руб.), педиатрия (500,00 руб.)');
+    expect(result).toContain('E: 1 500,00 руб. — педиатрия (1 500,00 руб.)');
+    expect(result).not.toContain('Боботик');
+    expect(result).toContain('... и ещё 1');
+  });
+
+  it('should write the category given in each department', () => {
+    generateVENConsistencyReport(inconsistencies, ['ОПН', 'гастро', 'педиатрия'], testFile);
+
+    const lines = fs.readFileSync(testFile, 'utf-8').split('\n');
+    expect(lines[0]).toBe('Код;Товар;Сумма;Сумма V;Сумма E;Сумма N;"ОПН";"гастро";"педиатрия"');
+    expect(lines[1]).toBe('8;"Апротинин ""Гордокс""";2500.00;1000.00;1500.00;0.00;;V;E/V');
+    expect(lines[2]).toBe('80;"Боботик";100.00;0.00;40.00;60.00;E;N;');
+  });
+});
+
+describe('INN output', () => {
+  const testDir = path.join(__dirname, '../test-output-inn');
+  const testFile = path.join(testDir, 'test_inn_items.csv');
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should write each trade item with its INN and source', () => {
+    const assignments: INNAssignment[] = [
+      { item: { code: 2, name: 'Адреналин амп. 0,1%', unit: 'уп.', quantity: 24, amount: 1929.6, ven: 'V' }, inn: 'Эпинефрин', source: 'dictionary' },
+      { item: { code: 3, name: 'Азитромицин капс.', unit: 'уп.', quantity: 8, amount: 671.44, ven: 'E' }, inn: 'Азитромицин', source: 'name' },
+    ];
+
+    generateINNReport(assignments, testFile);
+
+    const lines = fs.readFileSync(testFile, 'utf-8').split('\n');
+    expect(lines).toEqual([
+      'Код;Товар;МНН;Источник МНН;Ед.;Кол-во;Сумма;VEN',
+      '2;"Адреналин амп. 0,1%";"Эпинефрин";справочник;"уп.";24;1929.60;V',
+      '3;"Азитромицин капс.";"Азитромицин";по наименованию;"уп.";8;671.44;E',
+    ]);
+  });
+
+  it('should state the analysis level in the summary', () => {
+    const summary: ABCSummary[] = [{ category: 'A', count: 2, amount: 100, percentCount: 100, percentAmount: 100 }];
+    const empty = { count: 0, amount: 0, percentCount: 0, percentAmount: 0 };
+    const venDistribution = {
+      A: { V: empty, E: empty, N: empty },
+      B: { V: empty, E: empty, N: empty },
+      C: { V: empty, E: empty, N: empty },
+    };
+
+    expect(generateConsoleSummary(summary, [], venDistribution, 100, 2)).toContain('Уровень анализа: торговые позиции');
+    expect(generateConsoleSummary(summary, [], venDistribution, 100, 2, { innLevel: { itemCount: 5 } })).toContain(
+      'Уровень анализа: МНН (2 МНН из 5 торговых позиций)'
+    );
+  });
+});
+
+describe('name parsing output', () => {
+  const testDir = path.join(__dirname, '../test-output-names');
+  const testFile = path.join(testDir, 'test_names.csv');
+
+  const items: DrugItem[] = [
+    { code: 1, name: 'Адреналин амп. 0,1% 1мл №5', unit: 'уп.', quantity: 2, amount: 196, ven: 'V' },
+    { code: 2, name: 'Диклофенак амп. 75мг/3мл №10', unit: 'уп.', quantity: 1, amount: 50, ven: 'E' },
+    { code: 3, name: 'Валосердин 25мл', unit: 'уп.', quantity: 5, amount: 498.3, ven: 'N' },
+  ];
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should count and list names that were not fully parsed', () => {
+    const result = formatNameParsing(items);
+
+    expect(result).toContain('Наименования: разобрано полностью 2, частично 0, не разобрано 1');
+    expect(result).toContain('3  Валосердин 25мл: не найдено: форма, дозировка, число в упаковке');
+  });
+
+  it('should write parsed fields and unit prices', () => {
+    generateNameReport(items, testFile);
+
+    const lines = fs.readFileSync(testFile, 'utf-8').split('\n');
+    expect(lines).toEqual([
+      'Код;Товар;Форма;Дозировка;Объём;№;Кол-во;Сумма;Цена за ед.;Не найдено',
+      '1;"Адреналин амп. 0,1% 1мл №5";ампулы;0.1 %;1 мл;5;2;196.00;19.60;',
+      '2;"Диклофенак амп. 75мг/3мл №10";ампулы;75 мг/3 мл;;10;1;50.00;5.00;',
+      '3;"Валосердин 25мл";;;25 мл;;5;498.30;;форма, дозировка, число в упаковке',
+    ]);
+  });
+});
+
+describe('ATC output', () => {
+  const testDir = path.join(__dirname, '../test-output-atc');
+  const testFile = path.join(testDir, 'test_atc.csv');
+
+  const stats = (percentAmount: number): CategoryStats => ({ count: 0, amount: 0, percentCount: 0, percentAmount });
+  const group = (atc: string, count: number, amount: number, percentAmount: number): ATCGroupSummary => ({
+    atc,
+    count,
+    amount,
+    percentAmount,
+    abc: { A: stats(62.5), B: stats(37.5), C: stats(0) },
+    ven: { V: stats(100), E: stats(0), N: stats(0) },
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should show spend and the ABC/VEN split of each group', () => {
+    const result = generateATCTable([group('J01', 2, 800, 80), group('', 1, 200, 20)], 2);
+
+    expect(result).toContain('Затраты по группам ATC, уровень 2');
+    expect(result).toMatch(/│ J01 +│ +2 │ +800,00 │ +80\.00% │ +62\.5 │ +37\.5 │ +0\.0 │ +100\.0 │/);
+    expect(result).toContain('│ без ATC │');
+    expect(result).toContain('J — Противомикробные препараты для системного применения');
+  });
+
+  it('should write groups of all three levels', () => {
+    generateATCReport({ 1: [group('J', 2, 800, 80)], 2: [group('J01', 2, 800, 80)], 3: [group('', 2, 800, 80)] }, testFile);
+
+    const lines = fs.readFileSync(testFile, 'utf-8').split('\n');
+    expect(lines).toEqual([
+      'Уровень;ATC;Группа;Позиций;Сумма;% затрат;A, %;B, %;C, %;V, %;E, %;N, %',
+      '1;J;"Противомикробные препараты для системного применения";2;800.00;80.00;62.50;37.50;0.00;100.00;0.00;0.00',
+      '2;J01;"";2;800.00;80.00;62.50;37.50;0.00;100.00;0.00;0.00',
+      '3;;"без кода ATC";2;800.00;80.00;62.50;37.50;0.00;100.00;0.00;0.00',
+    ]);
+  });
+
+  it('should add an ATC column to the item report only when codes are known', () => {
+    const items: AnalyzedItem[] = [
+      { code: 1, name: 'Препарат А', unit: 'уп.', quantity: 1, amount: 80, ven: 'V', percentOfTotal: 80, cumulativePercent: 80, abc: 'A', atc: 'J01CR02' },
+      { code: 2, name: 'Препарат Б', unit: 'уп.', quantity: 1, amount: 20, ven: 'E', percentOfTotal: 20, cumulativePercent: 100, abc: 'C' },
+    ];
+
+    generateCSVReport(items, testFile);
+    const lines = fs.readFileSync(testFile, 'utf-8').split('\n');
+    expect(lines[0]).toBe('Код;Товар;Ед.;Кол-во;Сумма;% от общей;Накопл. %;ABC;VEN;ATC');
+    expect(lines[1].endsWith(';A;V;J01CR02')).toBe(true);
+    expect(lines[2].endsWith(';C;E;')).toBe(true);
+
+    generateCSVReport([items[1]], testFile);
+    expect(fs.readFileSync(testFile, 'utf-8').split('\n')[0]).toBe('Код;Товар;Ед.;Кол-во;Сумма;% от общей;Накопл. %;ABC;VEN');
+  });
+});
+
+describe('DDD output', () => {
+  const testDir = path.join(__dirname, '../test-output-ddd');
+  const testFile = path.join(testDir, 'test_ddd.csv');
+
+  const ceftriaxone: DrugItem = { code: 1, name: 'Цефтриаксон 1г №50', unit: 'уп.', quantity: 2, amount: 1000, ven: 'V', atc: 'J01DD04' };
+  const other: DrugItem = { code: 2, name: 'Препарат Б', unit: 'уп.', quantity: 1, amount: 1000, ven: 'E' };
+  const ddd = { atc: 'J01DD04', ddd: { value: 2, unit: 'g' }, route: 'P' };
+  const results: DDDResult[] = [
+    { item: ceftriaxone, ddd, doseUnits: 100, dddCount: 50, costPerDDD: 20, dddPer100BedDays: 12.5 },
+    { item: other, reason: 'нет кода ATC' },
+  ];
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should list DDDs by ATC code with coverage and reasons', () => {
+    const substances = [{ atc: 'J01DD04', ddd: ddd.ddd, dddCount: 50, amount: 1000, costPerDDD: 20, dddPer100BedDays: 12.5 }];
+    const result = formatDDD(results, substances, 400);
+
+    expect(result).toContain('Потребление в DDD (койко-дней: 400)');
+    expect(result).toContain('Рассчитано для 1 из 2 позиций, 50.00% затрат');
+    expect(result).toMatch(/J01DD04 +2 g +50,00 +20,00 +12,50/);
+    expect(result).toContain('нет кода ATC — 1');
+  });
+
+  it('should write one row per item', () => {
+    generateDDDReport(results, testFile);
+
+    const lines = fs.readFileSync(testFile, 'utf-8').split('\n');
+    expect(lines).toEqual([
+      'Код;Товар;ATC;DDD;Ед. дозирования;Число DDD;Сумма;Стоимость DDD;DDD на 100 к/д;Не рассчитано',
+      '1;"Цефтриаксон 1г №50";J01DD04;2 g;100;50.00;1000.00;20.00;12.50;',
+      '2;"Препарат Б";;;;;1000.00;;;"нет кода ATC"',
+    ]);
+  });
+});
+
+describe('problem categories output', () => {
+  const testDir = path.join(__dirname, '../test-output-problems');
+  const testFile = path.join(testDir, 'test_problems.csv');
+
+  const analyzed = analyzeABC([
+    { code: 1, name: 'Препарат А', unit: 'уп.', quantity: 1, amount: 7000, ven: 'V' },
+    { code: 2, name: 'Препарат Б', unit: 'уп.', quantity: 2, amount: 1500, ven: 'N' },
+    { code: 3, name: 'Препарат В', unit: 'фл.', quantity: 3, amount: 1000, ven: 'E' },
+    { code: 4, name: 'Препарат Г', unit: 'фл.', quantity: 0, amount: 500, ven: 'N' },
+  ]);
+  const problems = getProblemItems(analyzed);
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should give each category with its action and the potential saving', () => {
+    const result = formatProblemItems(problems).replace(/[\u00A0\u202F]/g, ' ');
+
+    expect(result).toContain('AN — пересмотр: 1 поз., 1 500,00 руб. (15.00% затрат)');
+    expect(result).toContain('BN — оптимизация: 0 поз., 0,00 руб. (0.00% затрат)');
+    expect(result).toContain('CN — кандидат на исключение: 1 поз., 500,00 руб. (5.00% затрат)');
+    expect(result).toContain('Потенциальная экономия при исключении всех: 2 000,00 руб. (20.00% затрат)');
+    expect(result).toContain('AN  2  Препарат Б — 1 500,00 руб. (15.00%), цена за уп. 750,00 руб.; пересмотр');
+    expect(result).toContain('CN  4  Препарат Г — 500,00 руб. (5.00%); кандидат на исключение');
+  });
+
+  it('should list every item by category', () => {
+    const result = formatProblemItems(problems);
+
+    expect(result.indexOf('Препарат Б')).toBeLessThan(result.indexOf('Препарат Г'));
+    expect(result).not.toContain('... и ещё');
+  });
+
+  it('should be added to the console summary when given', () => {
+    const summary = generateConsoleSummary([], [], getVENDistributionByABC(analyzed), 10000, 4, { problems });
+
+    expect(summary).toContain('Проблемные категории');
+  });
+
+  it('should write one row per item followed by the totals', () => {
+    generateProblemReport(problems, testFile);
+
+    const lines = fs.readFileSync(testFile, 'utf-8').split('\n');
+    expect(lines).toEqual([
+      'Категория;Действие;Код;Товар;Ед.;Кол-во;Сумма;% от общей;Цена за ед.;Рекомендация',
+      'AN;review;2;"Препарат Б";"уп.";2;1500.00;15.00;750.00;"Высокие затраты на второстепенные препараты: пересмотреть целесообразность закупок"',
+      'CN;exclude;4;"Препарат Г";"фл.";0;500.00;5.00;;"Низкие затраты на второстепенные препараты: рассмотреть исключение из формуляра"',
+      'Итого AN;review;;"Позиций: 1";;;1500.00;15.00;;',
+      'Итого BN;optimize;;"Позиций: 0";;;0.00;0.00;;',
+      'Итого CN;exclude;;"Позиций: 1";;;500.00;5.00;;',
+      'Итого;;;"Позиций: 2";;;2000.00;20.00;;"Потенциальная экономия при исключении всех позиций"',
+    ]);
+  });
+});
@@ -2,11 +2,64 @@ import * as fs from 'fs';
 import * as path from 'path';
 import {
   AnalyzedItem,
+  ABCOptions,
+  ABCBoundaryStrategy,
   ABCSummary,
+  ABCVENMatrix,
   VENSummary,
   ABCCategory,
   VENCategory,
+  ParseDiagnostic,
+  TotalsReconciliation,
+  DepartmentTotal,
+  MergedItem,
+  ChangeStatus,
+  ItemChange,
+  MatrixCell,
+  PeriodComparison,
+  AdjustedAnalysis,
+  CategoryStats,
+  ExcludedItem,
+  VENConflict,
+  VENInconsistency,
+  INNAssignment,
+  INNSource,
+  DosageForm,
+  DrugItem,
+  DrugNameDetails,
+  ATCGroupSummary,
+  ATCLevel,
+  DDDResult,
+  DDDSubstanceSummary,
+  Measure,
+  ProblemItem,
+  CodeConflict,
 } from './types';
+import { getABCVENMatrix, sumMatrixCells } from './analyzer';
+import { getBiggestMovers, matrixCell } from './comparison';
+import { getUnitPrice, missingNameFields, parseDrugName } from './drugName';
+import { ATC_ANATOMICAL_GROUPS } from './atc';
+import { PROBLEM_ACTIONS, PROBLEM_ACTION_LABELS, summarizeProblems } from './problems';
+
+/** Optional context shown in the report header */
+export interface ReportDetails {
+  abcOptions?: ABCOptions;
+  totals?: TotalsReconciliation;
+  /** ABC/VEN cells as shares of all items, shown as Table 4 */
+  matrix?: ABCVENMatrix;
+  /** Items of the AN, BN and CN categories, listed after the tables */
+  problems?: ProblemItem[];
+  /** Contributions of merged department files */
+  departments?: DepartmentTotal[];
+  /** Analysis without excluded outliers, shown next to the full one */
+  adjusted?: AdjustedAnalysis;
+  /** Set when items were grouped by INN: the number of trade-name items grouped */
+  innLevel?: { itemCount: number };
+  /** Spend by ATC group, shown after the ABC/VEN tables */
+  atc?: { level: ATCLevel; groups: ATCGroupSummary[] };
+  /** Consumption in defined daily doses, computed for trade-name items */
+  ddd?: { results: DDDResult[]; substances: DDDSubstanceSummary[]; bedDays?: number };
+}
 
 export function formatAmount(amount: number): string {
   return amount.toLocaleString('ru-RU', {
@@ -19,6 +72,164 @@ export function formatPercent(percent: number): string {
   return percent.toFixed(2) + '%';
 }
 
+export const STRATEGY_DESCRIPTIONS: Record<ABCBoundaryStrategy, string> = {
+  before: 'по накопленному % до позиции',
+  after: 'по накопленному % с учётом позиции',
+  nearest: 'к ближайшей границе',
+};
+
+export function describeABCOptions(options: ABCOptions): string {
+  const { a, b } = options.thresholds;
+  return `Границы ABC: A до ${a}%, B до ${b}%, C до 100%; отнесение: ${STRATEGY_DESCRIPTIONS[options.strategy]}`;
+}
+
+export const TOTALS_FIELD_NAMES: Record<'quantity' | 'amount', string> = {
+  quantity: 'Количество',
+  amount: 'Сумма',
+};
+
+export function formatTotalsReconciliation(totals: TotalsReconciliation): string {
+  const lines: string[] = [];
+
+  if (totals.matches) {
+    lines.push(`Контроль итога (итоговая строка ${totals.line}): совпадает`);
+  } else {
+    lines.push(`ВНИМАНИЕ: загруженные данные не совпадают с итоговой строкой ${totals.line}`);
+  }
+
+  for (const check of totals.checks) {
+    const format = check.field === 'amount' ? formatAmount : (value: number) => value.toLocaleString('ru-RU');
+    const status = check.withinTolerance ? 'OK' : `расхождение ${format(check.difference)}`;
+    lines.push(`  ${TOTALS_FIELD_NAMES[check.field]}: заявлено ${format(check.declared)}, загружено ${format(check.parsed)} — ${status}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function formatDepartmentTotals(totals: DepartmentTotal[]): string {
+  const lines: string[] = [`Объединено отделений: ${totals.length}`];
+  const width = Math.max(...totals.map((total) => total.department.length));
+
+  for (const total of totals) {
+    lines.push(
+      `  ${total.department.padEnd(width)}  ${String(total.count).padStart(4)} поз.  ${formatAmount(total.amount).padStart(16)} руб.  ${total.percentAmount.toFixed(2).padStart(6)}%`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+export function formatExcludedItems(excluded: ExcludedItem[]): string {
+  const lines: string[] = [];
+  const amount = excluded.reduce((sum, item) => sum + item.amount, 0);
+  const percent = excluded.reduce((sum, item) => sum + item.percentOfTotal, 0);
+
+  lines.push(`Исключено из скорректированного анализа: ${excluded.length} поз. на сумму ${formatAmount(amount)} руб. (${formatPercent(percent)} затрат)`);
+  for (const item of excluded) {
+    lines.push(`  ${item.code}  ${item.name} — ${formatAmount(item.amount)} руб. (${formatPercent(item.percentOfTotal)}); ${item.reason}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * ABC and VEN groups of the full analysis next to the analysis without
+ * the excluded items.
+ */
+export function generateAdjustedTable(
+  summary: ABCSummary[],
+  venSummary: VENSummary[],
+  totalAmount: number,
+  totalCount: number,
+  adjusted: AdjustedAnalysis
+): string {
+  const lines: string[] = [];
+  const columns = (count: number, amount: number, percent: number): string =>
+    `${String(count).padStart(5)} │ ${formatAmount(amount).padStart(15)} │ ${formatPercent(percent).padStart(7)}`;
+  const row = (label: string, full: CategoryStats | undefined, adjustedStats: CategoryStats | undefined): string =>
+    `│ ${label.padEnd(9)} │ ${columns(full?.count ?? 0, full?.amount ?? 0, full?.percentAmount ?? 0)} │ ${columns(adjustedStats?.count ?? 0, adjustedStats?.amount ?? 0, adjustedStats?.percentAmount ?? 0)} │`;
+
+  lines.push('Полный анализ и анализ без исключённых позиций');
+  lines.push('┌───────────┬───────────────────────────────────┬───────────────────────────────────┐');
+  lines.push('│           │ Полный анализ                     │ Без исключённых                   │');
+  lines.push('│ Группа    ├───────┬─────────────────┬─────────┼───────┬─────────────────┬─────────┤');
+  lines.push('│           │  Поз. │ Затраты, руб.   │ % затр. │  Поз. │ Затраты, руб.   │ % затр. │');
+  lines.push('├───────────┼───────┼─────────────────┼─────────┼───────┼─────────────────┼─────────┤');
+  for (const group of summary) {
+    lines.push(row(group.category, group, adjusted.summary.find((s) => s.category === group.category)));
+  }
+  lines.push('├───────────┼───────┼─────────────────┼─────────┼───────┼─────────────────┼─────────┤');
+  for (const group of venSummary) {
+    lines.push(row(group.category, group, adjusted.venSummary.find((s) => s.category === group.category)));
+  }
+  lines.push('├───────────┼───────┼─────────────────┼─────────┼───────┼─────────────────┼─────────┤');
+  lines.push(
+    `│ Итого     │ ${columns(totalCount, totalAmount, 100)} │ ${columns(adjusted.totalCount, adjusted.totalAmount, 100)} │`
+  );
+  lines.push('└───────────┴───────┴─────────────────┴─────────┴───────┴─────────────────┴─────────┘');
+
+  return lines.join('\n');
+}
+
+/**
+ * Spend by ATC group with the ABC and VEN split of each group's spend,
+ * followed by the names of the anatomical groups present.
+ */
+export function generateATCTable(groups: ATCGroupSummary[], level: ATCLevel): string {
+  const lines: string[] = [];
+  const percent = (value: number): string => value.toFixed(1).padStart(5);
+  const border = (left: string, middle: string, right: string): string =>
+    `${left}─────────${middle}───────${middle}─────────────────${middle}──────────${['A', 'B', 'C', 'V', 'E', 'N'].map(() => `${middle}───────`).join('')}${right}`;
+
+  lines.push(`Затраты по группам ATC, уровень ${level} (ABC и VEN — % затрат группы)`);
+  lines.push(border('┌', '┬', '┐'));
+  lines.push('│ ATC     │  Поз. │ Затраты, руб.   │ % затрат │ A, %  │ B, %  │ C, %  │ V, %  │ E, %  │ N, %  │');
+  lines.push(border('├', '┼', '┤'));
+  for (const group of groups) {
+    const abc = (['A', 'B', 'C'] as ABCCategory[]).map((category) => ` ${percent(group.abc[category].percentAmount)} │`);
+    const ven = (['V', 'E', 'N'] as VENCategory[]).map((category) => ` ${percent(group.ven[category].percentAmount)} │`);
+    lines.push(
+      `│ ${(group.atc || 'без ATC').padEnd(7)} │ ${String(group.count).padStart(5)} │ ${formatAmount(group.amount).padStart(15)} │ ${formatPercent(group.percentAmount).padStart(8)} │${abc.join('')}${ven.join('')}`
+    );
+  }
+  lines.push(border('└', '┴', '┘'));
+
+  const anatomical = [...new Set(groups.filter((group) => group.atc).map((group) => group.atc.charAt(0)))].sort();
+  for (const code of anatomical) {
+    lines.push(`  ${code} — ${ATC_ANATOMICAL_GROUPS[code]}`);
+  }
+
+  return lines.join('\n');
+}
+
+/** One row per ATC group of levels 1–3, level by level */
+export function generateATCReport(groupsByLevel: Record<ATCLevel, ATCGroupSummary[]>, outputPath: string): void {
+  const header = 'Уровень;ATC;Группа;Позиций;Сумма;% затрат;A, %;B, %;C, %;V, %;E, %;N, %';
+  const lines = ([1, 2, 3] as ATCLevel[]).flatMap((level) =>
+    groupsByLevel[level].map((group) =>
+      [
+        level,
+        group.atc,
+        quoteCSV(group.atc === '' ? 'без кода ATC' : level === 1 ? ATC_ANATOMICAL_GROUPS[group.atc] ?? '' : ''),
+        group.count,
+        group.amount.toFixed(2),
+        group.percentAmount.toFixed(2),
+        ...(['A', 'B', 'C'] as ABCCategory[]).map((category) => group.abc[category].percentAmount.toFixed(2)),
+        ...(['V', 'E', 'N'] as VENCategory[]).map((category) => group.ven[category].percentAmount.toFixed(2)),
+      ].join(';')
+    )
+  );
+
+  const content = [header, ...lines].join('\n');
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
 export function generateTable1(summary: ABCSummary[], totalCount: number, totalAmount: number): string {
   const lines: string[] = [];
 
@@ -91,14 +302,431 @@ export function generateTable3(
   return lines.join('\n');
 }
 
+/** Rows of each ABC group in Table 4, with the cell stats they show */
+export const MATRIX_INDICATORS: { label: string; value: (cell: CategoryStats) => string }[] = [
+  { label: 'Число МНН', value: (cell) => cell.count.toString() },
+  { label: '% МНН', value: (cell) => formatPercent(cell.percentCount) },
+  { label: 'Затраты, руб.', value: (cell) => formatAmount(cell.amount) },
+  { label: '% затрат', value: (cell) => formatPercent(cell.percentAmount) },
+];
+
+export function generateTable4(matrix: ABCVENMatrix): string {
+  const lines: string[] = [];
+  const border = (left: string, middle: string, right: string) =>
+    `${left}${'─'.repeat(8)}${middle}${'─'.repeat(15)}${[0, 1, 2, 3].map(() => middle + '─'.repeat(17)).join('')}${right}`;
+
+  lines.push('Таблица 4. Матрица ABC/VEN (% от общего числа МНН и общих затрат)');
+  lines.push(border('┌', '┬', '┐'));
+  lines.push(`│ Группа │ Показатель    │ ${['V', 'E', 'N', 'Итого'].map((ven) => ven.padEnd(15)).join(' │ ')} │`);
+
+  for (const abc of ['A', 'B', 'C', undefined] as (ABCCategory | undefined)[]) {
+    lines.push(border('├', '┼', '┤'));
+    const cells = [...(['V', 'E', 'N'] as VENCategory[]), undefined].map((ven) => sumMatrixCells(matrix, abc, ven));
+    MATRIX_INDICATORS.forEach((indicator, index) => {
+      const label = index === 0 ? (abc ?? 'Итого') : '';
+      const values = cells.map((cell) => indicator.value(cell).padStart(15)).join(' │ ');
+      lines.push(`│ ${label.padEnd(6)} │ ${indicator.label.padEnd(13)} │ ${values} │`);
+    });
+  }
+
+  lines.push(border('└', '┴', '┘'));
+
+  return lines.join('\n');
+}
+
+/**
+ * Writes every DrugItem field followed by the analysis columns. The header
+ * is recognized by the parser, so the file can be analyzed again.
+ */
 export function generateCSVReport(
   items: AnalyzedItem[],
   outputPath: string
 ): void {
-  const header = 'Код;Товар;Сумма;% от общей;Накопл. %;ABC;VEN';
+  // The ATC column is written only when codes were read or mapped
+  const withATC = items.some((item) => item.atc);
+  const header = `Код;Товар;Ед.;Кол-во;Сумма;% от общей;Накопл. %;ABC;VEN${withATC ? ';ATC' : ''}`;
   const lines = items.map(
     (item) =>
-      `${item.code};"${item.name}";${item.amount.toFixed(2)};${item.percentOfTotal.toFixed(2)};${item.cumulativePercent.toFixed(2)};${item.abc};${item.ven}`
+      `${item.code};${quoteCSV(item.name)};${quoteCSV(item.unit)};${item.quantity};${item.amount.toFixed(2)};${item.percentOfTotal.toFixed(2)};${item.cumulativePercent.toFixed(2)};${item.abc};${item.ven}${withATC ? `;${item.atc ?? ''}` : ''}`
+  );
+
+  const content = [header, ...lines].join('\n');
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
+/**
+ * Lists each merged item with its amount in every department, in the
+ * order of the analyzed items.
+ */
+export function generateDepartmentReport(
+  items: (AnalyzedItem & MergedItem)[],
+  departments: string[],
+  outputPath: string
+): void {
+  const header = ['Код', 'Товар', 'ABC', 'VEN', 'Сумма', ...departments.map((department) => quoteCSV(department))].join(';');
+  const lines = items.map((item) => {
+    const amounts = departments.map(
+      (department) => item.departments.find((share) => share.department === department)?.amount.toFixed(2) ?? ''
+    );
+    return [item.code, quoteCSV(item.name), item.abc, item.ven, item.amount.toFixed(2), ...amounts].join(';');
+  });
+
+  const content = [header, ...lines].join('\n');
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
+const INN_SOURCE_NAMES: Record<INNSource, string> = {
+  dictionary: 'справочник',
+  name: 'по наименованию',
+};
+
+/** Row-level view of an INN analysis: every trade-name item with its INN */
+export function generateINNReport(assignments: INNAssignment[], outputPath: string): void {
+  const header = 'Код;Товар;МНН;Источник МНН;Ед.;Кол-во;Сумма;VEN';
+  const lines = assignments.map(({ item, inn, source }) =>
+    [
+      item.code,
+      quoteCSV(item.name),
+      quoteCSV(inn),
+      INN_SOURCE_NAMES[source],
+      quoteCSV(item.unit),
+      item.quantity,
+      item.amount.toFixed(2),
+      item.ven,
+    ].join(';')
+  );
+
+  const content = [header, ...lines].join('\n');
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
+const DOSAGE_FORM_NAMES: Record<DosageForm, string> = {
+  ampoule: 'ампулы',
+  tablet: 'таблетки',
+  capsule: 'капсулы',
+  powder: 'порошок',
+  lyophilisate: 'лиофилизат',
+  solution: 'раствор',
+  suspension: 'суспензия',
+  syrup: 'сироп',
+  drops: 'капли',
+  ointment: 'мазь',
+  cream: 'крем',
+  gel: 'гель',
+  suppository: 'суппозитории',
+  granules: 'гранулы',
+  spray: 'спрей',
+  emulsion: 'эмульсия',
+  vial: 'флакон',
+};
+
+/** "0.1 %", "100 мг/5 мл", "20 мг/мл" */
+function formatStrength(details: DrugNameDetails): string {
+  if (!details.strength) {
+    return '';
+  }
+  const strength = `${details.strength.value} ${details.strength.unit}`;
+  const volume = details.strengthVolume;
+  if (!volume) {
+    return strength;
+  }
+  return `${strength}/${volume.value === 1 ? '' : `${volume.value} `}${volume.unit}`;
+}
+
+export function formatNameParsing(items: DrugItem[], limit = 10): string {
+  const missing = items
+    .map((item) => ({ item, fields: missingNameFields(parseDrugName(item.name)) }))
+    .filter(({ fields }) => fields.length > 0);
+  const unparsed = missing.filter(({ fields }) => fields.length === 3).length;
+
+  const lines: string[] = [
+    `Наименования: разобрано полностью ${items.length - missing.length}, частично ${missing.length - unparsed}, не разобрано ${unparsed}`,
+  ];
+  for (const { item, fields } of missing.slice(0, limit)) {
+    lines.push(`  ${item.code}  ${item.name}: не найдено: ${fields.join(', ')}`);
+  }
+  if (missing.length > limit) {
+    lines.push(`  ... и ещё ${missing.length - limit}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Writes the form, strength, volume and pack size read from each name,
+ * with the price of one dose unit where the pack size is known.
+ */
+export function generateNameReport(items: DrugItem[], outputPath: string): void {
+  const header = 'Код;Товар;Форма;Дозировка;Объём;№;Кол-во;Сумма;Цена за ед.;Не найдено';
+  const lines = items.map((item) => {
+    const details = parseDrugName(item.name);
+    const unitPrice = getUnitPrice(item, details);
+    return [
+      item.code,
+      quoteCSV(item.name),
+      details.form ? DOSAGE_FORM_NAMES[details.form] : '',
+      formatStrength(details),
+      details.volume ? `${details.volume.value} ${details.volume.unit}` : '',
+      details.packSize ?? '',
+      item.quantity,
+      item.amount.toFixed(2),
+      unitPrice !== undefined ? unitPrice.toFixed(2) : '',
+      missingNameFields(details).join(', '),
+    ].join(';');
+  });
+
+  const content = [header, ...lines].join('\n');
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
+function formatMeasure(measure: Measure): string {
+  return `${measure.value} ${measure.unit}`;
+}
+
+/**
+ * Consumption in DDD by ATC code, with the share of spend covered and the
+ * reasons DDDs could not be computed for the remaining items.
+ */
+export function formatDDD(results: DDDResult[], substances: DDDSubstanceSummary[], bedDays?: number, limit = 10): string {
+  const computed = results.filter((result) => result.dddCount !== undefined);
+  const totalAmount = results.reduce((sum, result) => sum + result.item.amount, 0);
+  const computedAmount = computed.reduce((sum, result) => sum + result.item.amount, 0);
+  const lines: string[] = [];
+
+  lines.push(`Потребление в DDD${bedDays ? ` (койко-дней: ${bedDays.toLocaleString('ru-RU')})` : ''}`);
+  lines.push(
+    `  Рассчитано для ${computed.length} из ${results.length} позиций, ${formatPercent(totalAmount > 0 ? (computedAmount / totalAmount) * 100 : 0)} затрат`
+  );
+  if (substances.length > 0) {
+    lines.push('');
+    lines.push(`  ${'ATC'.padEnd(8)} ${'DDD'.padEnd(10)} ${'Число DDD'.padStart(14)} ${'Стоимость DDD'.padStart(14)}${bedDays ? ` ${'DDD/100 к/д'.padStart(12)}` : ''}`);
+    for (const substance of substances.slice(0, limit)) {
+      const per100 = substance.dddPer100BedDays !== undefined ? ` ${formatAmount(substance.dddPer100BedDays).padStart(12)}` : '';
+      lines.push(
+        `  ${substance.atc.padEnd(8)} ${formatMeasure(substance.ddd).padEnd(10)} ${formatAmount(substance.dddCount).padStart(14)} ${formatAmount(substance.costPerDDD).padStart(14)}${per100}`
+      );
+    }
+    if (substances.length > limit) {
+      lines.push(`  ... и ещё ${substances.length - limit}`);
+    }
+  }
+
+  const reasons = new Map<string, number>();
+  for (const { reason } of results) {
+    if (reason) {
+      reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+    }
+  }
+  if (reasons.size > 0) {
+    lines.push('');
+    lines.push('  Не рассчитано:');
+    const sorted = [...reasons].sort((a, b) => b[1] - a[1]);
+    for (const [reason, count] of sorted.slice(0, limit)) {
+      lines.push(`    ${reason} — ${count}`);
+    }
+    if (sorted.length > limit) {
+      lines.push(`    ... и ещё ${sorted.length - limit}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/** One row per item: DDD used, dose units, DDD count and cost, or why they are missing */
+export function generateDDDReport(results: DDDResult[], outputPath: string): void {
+  const header = 'Код;Товар;ATC;DDD;Ед. дозирования;Число DDD;Сумма;Стоимость DDD;DDD на 100 к/д;Не рассчитано';
+  const lines = results.map((result) =>
+    [
+      result.item.code,
+      quoteCSV(result.item.name),
+      result.item.atc ?? '',
+      result.ddd ? formatMeasure(result.ddd.ddd) : '',
+      result.doseUnits ?? '',
+      result.dddCount !== undefined ? result.dddCount.toFixed(2) : '',
+      result.item.amount.toFixed(2),
+      result.costPerDDD !== undefined ? result.costPerDDD.toFixed(2) : '',
+      result.dddPer100BedDays !== undefined ? result.dddPer100BedDays.toFixed(2) : '',
+      result.reason ? quoteCSV(result.reason) : '',
+    ].join(';')
+  );
+
+  const content = [header, ...lines].join('\n');
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
+/**
+ * Spend of the AN, BN and CN categories with their suggested actions, the
+ * saving if all their items were removed, and the largest of those items.
+ */
+export function formatProblemItems(problems: ProblemItem[]): string {
+  const summaries = summarizeProblems(problems);
+  const amount = summaries.reduce((sum, summary) => sum + summary.amount, 0);
+  const percent = summaries.reduce((sum, summary) => sum + summary.percentAmount, 0);
+
+  const lines: string[] = ['Проблемные категории (второстепенные препараты групп A, B, C)'];
+  for (const summary of summaries) {
+    lines.push(
+      `  ${summary.category} — ${PROBLEM_ACTION_LABELS[summary.action]}: ${summary.count} поз., ${formatAmount(summary.amount)} руб. (${formatPercent(summary.percentAmount)} затрат)`
+    );
+  }
+  lines.push(`  Потенциальная экономия при исключении всех: ${formatAmount(amount)} руб. (${formatPercent(percent)} затрат)`);
+
+  if (problems.length > 0) {
+    lines.push('');
+    lines.push('  Позиции:');
+    for (const { item, category, action, unitPrice } of problems) {
+      const price = unitPrice !== undefined ? `, цена за ${item.unit} ${formatAmount(unitPrice)} руб.` : '';
+      lines.push(
+        `  ${category}  ${item.code}  ${item.name} — ${formatAmount(item.amount)} руб. (${formatPercent(item.percentOfTotal)})${price}; ${PROBLEM_ACTION_LABELS[action]}`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * One row per item of the AN, BN and CN categories with the suggested
+ * action, followed by the total of each category and of all of them.
+ */
+export function generateProblemReport(problems: ProblemItem[], outputPath: string): void {
+  const header = 'Категория;Действие;Код;Товар;Ед.;Кол-во;Сумма;% от общей;Цена за ед.;Рекомендация';
+  const lines = problems.map(({ item, category, action, unitPrice }) =>
+    [
+      category,
+      action,
+      item.code,
+      quoteCSV(item.name),
+      quoteCSV(item.unit),
+      item.quantity,
+      item.amount.toFixed(2),
+      item.percentOfTotal.toFixed(2),
+      unitPrice !== undefined ? unitPrice.toFixed(2) : '',
+      quoteCSV(PROBLEM_ACTIONS[category].recommendation),
+    ].join(';')
+  );
+
+  const summaries = summarizeProblems(problems);
+  for (const summary of summaries) {
+    lines.push(
+      `Итого ${summary.category};${summary.action};;${quoteCSV(`Позиций: ${summary.count}`)};;;${summary.amount.toFixed(2)};${summary.percentAmount.toFixed(2)};;`
+    );
+  }
+  const amount = summaries.reduce((sum, summary) => sum + summary.amount, 0);
+  const percent = summaries.reduce((sum, summary) => sum + summary.percentAmount, 0);
+  lines.push(
+    `Итого;;;${quoteCSV(`Позиций: ${problems.length}`)};;;${amount.toFixed(2)};${percent.toFixed(2)};;${quoteCSV('Потенциальная экономия при исключении всех позиций')}`
+  );
+
+  const content = [header, ...lines].join('\n');
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
+export function formatDiagnosticsSummary(diagnostics: ParseDiagnostic[], limit = 10): string {
+  const errors = diagnostics.filter((d) => d.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+  const lines: string[] = [`Отклонено строк: ${errors}, предупреждений: ${warnings}`];
+
+  for (const diagnostic of diagnostics.slice(0, limit)) {
+    const level = diagnostic.severity === 'error' ? 'ОШИБКА' : 'ПРЕДУПРЕЖДЕНИЕ';
+    lines.push(`  строка ${diagnostic.line}: ${level}: ${diagnostic.reason}`);
+    lines.push(`    ${diagnostic.raw}`);
+  }
+  if (diagnostics.length > limit) {
+    lines.push(`  ... и ещё ${diagnostics.length - limit}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function generateDiagnosticsReport(
+  diagnostics: ParseDiagnostic[],
+  outputPath: string
+): void {
+  const header = 'Строка;Уровень;Причина;Исходная строка';
+  const lines = diagnostics.map((d) => `${d.line};${d.severity};${quoteCSV(d.reason)};${quoteCSV(d.raw)}`);
+
+  const content = [header, ...lines].join('\n');
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
+export function formatCodeConflicts(conflicts: CodeConflict[], limit = 10): string {
+  const lines: string[] = [
+    `ВНИМАНИЕ: кодов с разными наименованиями: ${conflicts.length}; при сопоставлении по коду эти позиции считаются одним препаратом`,
+  ];
+
+  for (const conflict of conflicts.slice(0, limit)) {
+    lines.push(`  код ${conflict.code}: ${conflict.names.map(({ department, name }) => `${name} (${department})`).join('; ')}`);
+  }
+  if (conflicts.length > limit) {
+    lines.push(`  ... и ещё ${conflicts.length - limit}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function formatVENConflicts(conflicts: VENConflict[], limit = 10): string {
+  const lines: string[] = [`Расхождений со справочником VEN: ${conflicts.length}`];
+
+  for (const conflict of conflicts.slice(0, limit)) {
+    const rationale = conflict.rationale ? ` (${conflict.rationale})` : '';
+    lines.push(
+      `  строка ${conflict.line}: ${conflict.code} ${conflict.name}: в файле ${conflict.fileVEN}, по справочнику ${conflict.dictionaryVEN}${rationale}`
+    );
+  }
+  if (conflicts.length > limit) {
+    lines.push(`  ... и ещё ${conflicts.length - limit}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function generateVENConflictsReport(conflicts: VENConflict[], outputPath: string): void {
+  const header = 'Строка;Код;Товар;VEN в файле;VEN по справочнику;Обоснование';
+  const lines = conflicts.map((c) =>
+    [c.line, c.code, quoteCSV(c.name), c.fileVEN, c.dictionaryVEN, quoteCSV(c.rationale ?? '')].join(';')
   );
 
   const content = [header, ...lines].join('\n');
@@ -116,7 +744,8 @@ export function generateConsoleSummary(
   venSummary: VENSummary[],
   venDistribution: Record<ABCCategory, Record<VENCategory, { count: number; amount: number; percentCount: number; percentAmount: number }>>,
   totalAmount: number,
-  totalCount: number
+  totalCount: number,
+  details: ReportDetails = {}
 ): string {
   const lines: string[] = [];
 
@@ -126,6 +755,20 @@ export function generateConsoleSummary(
   lines.push('');
   lines.push(`Всего позиций: ${totalCount}`);
   lines.push(`Общая сумма: ${formatAmount(totalAmount)} руб.`);
+  lines.push(
+    details.innLevel
+      ? `Уровень анализа: МНН (${totalCount} МНН из ${details.innLevel.itemCount} торговых позиций)`
+      : 'Уровень анализа: торговые позиции (в таблицах «МНН» считаются строки файла)'
+  );
+  if (details.abcOptions) {
+    lines.push(describeABCOptions(details.abcOptions));
+  }
+  if (details.totals) {
+    lines.push(formatTotalsReconciliation(details.totals));
+  }
+  if (details.departments) {
+    lines.push(formatDepartmentTotals(details.departments));
+  }
   lines.push('');
 
   // Table 1: ABC Analysis
@@ -140,6 +783,34 @@ export function generateConsoleSummary(
   lines.push(generateTable3(venDistribution));
   lines.push('');
 
+  // Table 4: ABC/VEN Matrix (% of all items)
+  if (details.matrix) {
+    lines.push(generateTable4(details.matrix));
+    lines.push('');
+  }
+
+  if (details.problems) {
+    lines.push(formatProblemItems(details.problems));
+    lines.push('');
+  }
+
+  if (details.atc) {
+    lines.push(generateATCTable(details.atc.groups, details.atc.level));
+    lines.push('');
+  }
+
+  if (details.ddd) {
+    lines.push(formatDDD(details.ddd.results, details.ddd.substances, details.ddd.bedDays));
+    lines.push('');
+  }
+
+  if (details.adjusted) {
+    lines.push(formatExcludedItems(details.adjusted.excluded));
+    lines.push('');
+    lines.push(generateAdjustedTable(summary, venSummary, totalAmount, totalCount, details.adjusted));
+    lines.push('');
+  }
+
   lines.push('═══════════════════════════════════════════════════════════════');
 
   return lines.join('\n');
@@ -150,7 +821,8 @@ export function generateTextReport(
   summary: ABCSummary[],
   venSummary: VENSummary[],
   venDistribution: Record<ABCCategory, Record<VENCategory, { count: number; amount: number; percentCount: number; percentAmount: number }>>,
-  outputPath: string
+  outputPath: string,
+  details: ReportDetails = {}
 ): void {
   const totalAmount = items.reduce((sum, item) => sum + item.amount, 0);
   const totalCount = items.length;
@@ -160,7 +832,8 @@ export function generateTextReport(
     venSummary,
     venDistribution,
     totalAmount,
-    totalCount
+    totalCount,
+    { matrix: getABCVENMatrix(items), ...details }
   );
 
   const dir = path.dirname(outputPath);
@@ -170,3 +843,228 @@ export function generateTextReport(
 
   fs.writeFileSync(outputPath, content, 'utf-8');
 }
+
+export interface ComparisonLabels {
+  before: string;
+  after: string;
+}
+
+function formatSignedAmount(amount: number): string {
+  return `${amount > 0 ? '+' : ''}${formatAmount(amount)}`;
+}
+
+export function generateMigrationTable(migration: PeriodComparison['migration'], labels: ComparisonLabels): string {
+  const lines: string[] = [];
+  const cells = Object.keys(migration) as MatrixCell[];
+  const border = (left: string, middle: string, right: string): string =>
+    `${left}──────${cells.map(() => '─────').map((segment) => middle + segment).join('')}${right}`;
+
+  lines.push(`Таблица миграции ABC/VEN (число позиций; строки — ${labels.before}, столбцы — ${labels.after})`);
+  lines.push(border('┌', '┬', '┐'));
+  lines.push(`│ было │${cells.map((cell) => ` ${cell.padStart(3)} │`).join('')}`);
+  lines.push(border('├', '┼', '┤'));
+  for (const from of cells) {
+    lines.push(`│ ${from.padEnd(4)} │${cells.map((to) => ` ${String(migration[from][to] || '·').padStart(3)} │`).join('')}`);
+  }
+  lines.push(border('└', '┴', '┘'));
+
+  return lines.join('\n');
+}
+
+export function formatComparison(comparison: PeriodComparison, labels: ComparisonLabels, limit = 10): string {
+  const lines: string[] = [];
+  const byStatus = (status: ChangeStatus): ItemChange[] => comparison.changes.filter((change) => change.status === status);
+  const sumDelta = (changes: ItemChange[]): number => changes.reduce((sum, change) => sum + change.amountDelta, 0);
+  const continued = byStatus('continued');
+  const added = byStatus('new');
+  const discontinued = byStatus('discontinued');
+  const delta = comparison.totalAfter - comparison.totalBefore;
+  const percent = comparison.totalBefore > 0 ? ` (${delta > 0 ? '+' : ''}${((delta / comparison.totalBefore) * 100).toFixed(2)}%)` : '';
+
+  lines.push('═══════════════════════════════════════════════════════════════');
+  lines.push('                    СРАВНЕНИЕ ПЕРИОДОВ');
+  lines.push('═══════════════════════════════════════════════════════════════');
+  lines.push('');
+  lines.push(`Период 1: ${labels.before}`);
+  lines.push(`Период 2: ${labels.after}`);
+  lines.push(`Сумма: ${formatAmount(comparison.totalBefore)} → ${formatAmount(comparison.totalAfter)} руб., изменение ${formatSignedAmount(delta)} руб.${percent}`);
+  lines.push(`Сохранилось позиций: ${continued.length}, изменение суммы ${formatSignedAmount(sumDelta(continued))} руб.`);
+  lines.push(`Новых позиций: ${added.length} на сумму ${formatAmount(sumDelta(added))} руб.`);
+  lines.push(`Выбывших позиций: ${discontinued.length} на сумму ${formatAmount(-sumDelta(discontinued))} руб.`);
+  lines.push('');
+
+  lines.push(generateMigrationTable(comparison.migration, labels));
+  lines.push('');
+
+  const movers = getBiggestMovers(comparison, limit);
+  lines.push('Наибольшие перемещения между ячейками матрицы:');
+  if (movers.length === 0) {
+    lines.push('  нет');
+  }
+  movers.forEach((change, index) => {
+    const { before, after } = change as Required<ItemChange>;
+    lines.push(
+      `  ${index + 1}. ${change.name}: ${matrixCell(before)} → ${matrixCell(after)}, ${formatAmount(before.amount)} → ${formatAmount(after.amount)} руб. (${formatSignedAmount(change.amountDelta)})`
+    );
+  });
+  lines.push('');
+
+  for (const [title, changes] of [
+    ['Крупнейшие новые позиции:', added],
+    ['Крупнейшие выбывшие позиции:', discontinued],
+  ] as [string, ItemChange[]][]) {
+    lines.push(title);
+    if (changes.length === 0) {
+      lines.push('  нет');
+    }
+    changes.slice(0, limit).forEach((change, index) => {
+      const item = (change.after ?? change.before) as AnalyzedItem;
+      lines.push(`  ${index + 1}. ${change.name}: ${formatAmount(item.amount)} руб. (${matrixCell(item)})`);
+    });
+    lines.push('');
+  }
+
+  lines.push('═══════════════════════════════════════════════════════════════');
+
+  return lines.join('\n');
+}
+
+const CHANGE_STATUS_NAMES: Record<ChangeStatus, string> = {
+  new: 'новая',
+  discontinued: 'выбыла',
+  continued: 'сохранилась',
+};
+
+export function generateComparisonReport(comparison: PeriodComparison, outputPath: string): void {
+  const header = 'Код;Товар;Статус;Сумма 1;Сумма 2;Изменение;Изменение %;Ячейка 1;Ячейка 2';
+  const lines = comparison.changes.map((change) => {
+    const { before, after } = change;
+    const percent = before && before.amount > 0 ? ((change.amountDelta / before.amount) * 100).toFixed(2) : '';
+    return [
+      change.code,
+      quoteCSV(change.name),
+      CHANGE_STATUS_NAMES[change.status],
+      before?.amount.toFixed(2) ?? '',
+      after?.amount.toFixed(2) ?? '',
+      change.amountDelta.toFixed(2),
+      percent,
+      before ? matrixCell(before) : '',
+      after ? matrixCell(after) : '',
+    ].join(';');
+  });
+
+  const content = [header, ...lines].join('\n');
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
+export function generateComparisonTextReport(
+  comparison: PeriodComparison,
+  labels: ComparisonLabels,
+  outputPath: string,
+  limit = 10
+): void {
+  const content = formatComparison(comparison, labels, limit);
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
+export function formatVENInconsistencies(inconsistencies: VENInconsistency[], limit = 10): string {
+  const lines: string[] = [];
+  const amount = inconsistencies.reduce((sum, inconsistency) => sum + inconsistency.totalAmount, 0);
+
+  lines.push('═══════════════════════════════════════════════════════════════');
+  lines.push('              СОГЛАСОВАННОСТЬ КАТЕГОРИЙ VEN');
+  lines.push('═══════════════════════════════════════════════════════════════');
+  lines.push('');
+  lines.push(`Препаратов с разной категорией VEN в отделениях: ${inconsistencies.length} на сумму ${formatAmount(amount)} руб.`);
+
+  inconsistencies.slice(0, limit).forEach((inconsistency, index) => {
+    lines.push('');
+    lines.push(`  ${index + 1}. ${inconsistency.code}  ${inconsistency.name} — ${formatAmount(inconsistency.totalAmount)} руб.`);
+    for (const ven of ['V', 'E', 'N'] as VENCategory[]) {
+      const entries = inconsistency.departments.filter((entry) => entry.ven === ven);
+      if (entries.length === 0) {
+        continue;
+      }
+      const departments = entries.map((entry) => `${entry.department} (${formatAmount(entry.amount)} руб.)`).join(', ');
+      lines.push(`     ${ven}: ${formatAmount(inconsistency.amountByVEN[ven])} руб. — ${departments}`);
+    }
+  });
+  if (inconsistencies.length > limit) {
+    lines.push('');
+    lines.push(`  ... и ещё ${inconsistencies.length - limit}`);
+  }
+
+  lines.push('');
+  lines.push('═══════════════════════════════════════════════════════════════');
+
+  return lines.join('\n');
+}
+
+/**
+ * One row per inconsistent drug: amounts by category, then the category
+ * given in each department ("V/E" when a department lists it under both).
+ */
+export function generateVENConsistencyReport(
+  inconsistencies: VENInconsistency[],
+  departments: string[],
+  outputPath: string
+): void {
+  const header = ['Код', 'Товар', 'Сумма', 'Сумма V', 'Сумма E', 'Сумма N', ...departments.map((department) => quoteCSV(department))].join(';');
+  const lines = inconsistencies.map((inconsistency) => {
+    const categories = departments.map((department) =>
+      inconsistency.departments
+        .filter((entry) => entry.department === department)
+        .map((entry) => entry.ven)
+        .join('/')
+    );
+    return [
+      inconsistency.code,
+      quoteCSV(inconsistency.name),
+      inconsistency.totalAmount.toFixed(2),
+      inconsistency.amountByVEN.V.toFixed(2),
+      inconsistency.amountByVEN.E.toFixed(2),
+      inconsistency.amountByVEN.N.toFixed(2),
+      ...categories,
+    ].join(';');
+  });
+
+  const content = [header, ...lines].join('\n');
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
+export function generateVENConsistencyTextReport(
+  inconsistencies: VENInconsistency[],
+  outputPath: string,
+  limit = 10
+): void {
+  const content = formatVENInconsistencies(inconsistencies, limit);
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, content, 'utf-8');
+}
+
+function quoteCSV(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
@@ -8,6 +8,113 @@ export interface DrugItem {
   quantity: number;
   amount: number;
   ven: VENCategory;
+  /** ATC code from the source table or the ATC mapping, e.g. "J01DD04" */
+  atc?: string;
+}
+
+export type DosageForm =
+  | 'ampoule'
+  | 'tablet'
+  | 'capsule'
+  | 'powder'
+  | 'lyophilisate'
+  | 'solution'
+  | 'suspension'
+  | 'syrup'
+  | 'drops'
+  | 'ointment'
+  | 'cream'
+  | 'gel'
+  | 'suppository'
+  | 'granules'
+  | 'spray'
+  | 'emulsion'
+  | 'vial';
+
+/** A number with a unit as written in the name: мг, мкг, г, МЕ, ЕД, %, мл, л, доза */
+export interface Measure {
+  value: number;
+  unit: string;
+}
+
+/** Form, strength and pack size read from a drug name; fields not found are absent */
+export interface DrugNameDetails {
+  form?: DosageForm;
+  /** Substance per dose unit or per `strengthVolume`: 250 мг, 0.1 %, 100 мг (/5 мл) */
+  strength?: Measure;
+  /** Volume or dose the strength refers to: 5 мл in "100мг/5мл", 1 мл in "20мг/мл" */
+  strengthVolume?: Measure;
+  /** Fill volume of one unit: 1 мл ampoule, 100 мл vial */
+  volume?: Measure;
+  /** Units per pack, from "№5" */
+  packSize?: number;
+}
+
+/**
+ * ru: "1 234 567,89" — comma decimal, space/NBSP thousands (a dot is also
+ *     read as decimal, as 1C exports write it);
+ * en: "1,234,567.89" — dot decimal, comma thousands.
+ */
+export type NumberLocale = 'ru' | 'en';
+
+/** Text encodings of CSV input; accounting exports are often windows-1251 */
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1251';
+
+export type CSVDelimiter = ',' | ';' | '\t';
+
+/** How a CSV file was read; `bom` is true when the encoding came from a byte order mark */
+export interface CSVFormat {
+  encoding: CSVEncoding;
+  delimiter: CSVDelimiter;
+  bom: boolean;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A source row that was rejected ('error') or accepted with an
+ * assumption such as a missing amount taken as 0 ('warning').
+ */
+export interface ParseDiagnostic {
+  /** 1-based line (CSV) or row (workbook) number in the source */
+  line: number;
+  raw: string;
+  reason: string;
+  severity: DiagnosticSeverity;
+}
+
+/** Values of the source "Всего:" footer row */
+export interface DeclaredTotals {
+  line: number;
+  quantity?: number;
+  amount?: number;
+}
+
+export interface ParseResult {
+  items: DrugItem[];
+  diagnostics: ParseDiagnostic[];
+  declaredTotals?: DeclaredTotals;
+  /** Number convention used for quantity and amount cells */
+  numberLocale?: NumberLocale;
+  /** Encoding and delimiter of CSV input; absent for workbooks */
+  csvFormat?: CSVFormat;
+  /** Rows whose VEN category was replaced by the dictionary value */
+  venConflicts?: VENConflict[];
+}
+
+export interface TotalsCheck {
+  field: 'quantity' | 'amount';
+  declared: number;
+  parsed: number;
+  difference: number;
+  withinTolerance: boolean;
+}
+
+export interface TotalsReconciliation {
+  line: number;
+  tolerance: number;
+  checks: TotalsCheck[];
+  matches: boolean;
 }
 
 export interface AnalyzedItem extends DrugItem {
@@ -16,6 +123,119 @@ export interface AnalyzedItem extends DrugItem {
   abc: ABCCategory;
 }
 
+/** How items from several departments are matched when merging */
+export type MergeKey = 'code' | 'code-name' | 'name';
+
+export interface DepartmentItems {
+  department: string;
+  items: DrugItem[];
+}
+
+export interface DepartmentShare {
+  department: string;
+  quantity: number;
+  amount: number;
+}
+
+/** A consolidated item; quantity and amount are sums over `departments` */
+export interface MergedItem extends DrugItem {
+  departments: DepartmentShare[];
+}
+
+export interface DepartmentTotal {
+  department: string;
+  count: number;
+  amount: number;
+  percentAmount: number;
+}
+
+/** Rows of the file, or trade-name items grouped by INN (МНН) */
+export type AnalysisLevel = 'item' | 'inn';
+
+/** INN dictionary record: trade names (or name prefixes) of one INN */
+export interface INNDictionaryEntry {
+  inn: string;
+  names: string[];
+}
+
+export type INNSource = 'dictionary' | 'name';
+
+/** A trade-name item with its INN and where the INN came from */
+export interface INNAssignment {
+  item: DrugItem;
+  inn: string;
+  source: INNSource;
+}
+
+/** An INN-level item; quantity and amount are sums over `tradeItems` */
+export interface INNItem extends DrugItem {
+  tradeItems: DrugItem[];
+}
+
+/** How one department classifies a drug */
+export interface DepartmentVEN extends DepartmentShare {
+  ven: VENCategory;
+}
+
+/** A drug classified differently by departments */
+export interface VENInconsistency {
+  code: number;
+  name: string;
+  /** In department order; a department listing the drug under two categories appears twice */
+  departments: DepartmentVEN[];
+  amountByVEN: Record<VENCategory, number>;
+  totalAmount: number;
+}
+
+/**
+ * Items left out of the adjusted analysis: by code, by name pattern
+ * (case-insensitive regular expression) or by share of the total amount, in %.
+ */
+export interface ExclusionRules {
+  codes?: number[];
+  names?: string[];
+  minShare?: number;
+}
+
+export interface ExcludedItem extends DrugItem {
+  /** Share of the full total, % */
+  percentOfTotal: number;
+  reason: string;
+}
+
+/** The analysis repeated without the excluded items */
+export interface AdjustedAnalysis {
+  excluded: ExcludedItem[];
+  summary: ABCSummary[];
+  venSummary: VENSummary[];
+  totalAmount: number;
+  totalCount: number;
+}
+
+/** A cell of the ABC/VEN matrix, e.g. "AV" */
+export type MatrixCell = `${ABCCategory}${VENCategory}`;
+
+export type ChangeStatus = 'new' | 'discontinued' | 'continued';
+
+/** One drug in a period-over-period comparison */
+export interface ItemChange {
+  code: number;
+  name: string;
+  status: ChangeStatus;
+  before?: AnalyzedItem;
+  after?: AnalyzedItem;
+  /** after.amount - before.amount, with a missing side counted as 0 */
+  amountDelta: number;
+}
+
+export interface PeriodComparison {
+  changes: ItemChange[];
+  /** Count of continued items by cell in the first period, then in the second */
+  migration: Record<MatrixCell, Record<MatrixCell, number>>;
+  totalBefore: number;
+  totalAfter: number;
+}
+
 export interface CategoryStats {
   count: number;
   amount: number;
@@ -44,3 +264,199 @@ export interface VENSummary {
   percentCount: number;
   percentAmount: number;
 }
+
+/**
+ * How the item whose amount crosses a threshold is assigned:
+ * - 'before'  — by cumulative percent before the item (crossing item stays in the upper group)
+ * - 'after'   — by cumulative percent including the item (crossing item goes to the next group)
+ * - 'nearest' — to the group whose boundary is closer to the item's cumulative range midpoint
+ */
+export type ABCBoundaryStrategy = 'before' | 'after' | 'nearest';
+
+export interface ABCThresholds {
+  a: number;
+  b: number;
+}
+
+export interface ABCOptions {
+  thresholds: ABCThresholds;
+  strategy: ABCBoundaryStrategy;
+}
+
+export type ColumnField = 'code' | 'name' | 'unit' | 'quantity' | 'amount' | 'ven' | 'atc';
+
+/** 0-based column indexes of DrugItem fields in a source table */
+export interface ColumnMapping {
+  code: number;
+  name: number;
+  unit?: number;
+  quantity: number;
+  amount: number;
+  /** Absent only when VEN categories come from a dictionary */
+  ven?: number;
+  atc?: number;
+}
+
+/** ATC mapping record; matched by name, or by code when no name is given */
+export interface ATCMappingEntry {
+  code?: number;
+  name?: string;
+  atc: string;
+}
+
+/** 1 — anatomical group (J), 2 — therapeutic subgroup (J01), 3 — pharmacological subgroup (J01C) */
+export type ATCLevel = 1 | 2 | 3;
+
+/** Spend of one ATC group with its ABC and VEN distribution (percentages within the group) */
+export interface ATCGroupSummary {
+  /** ATC prefix of the level; empty for items without an ATC code */
+  atc: string;
+  count: number;
+  amount: number;
+  percentAmount: number;
+  abc: Record<ABCCategory, CategoryStats>;
+  ven: Record<VENCategory, CategoryStats>;
+}
+
+/**
+ * Defined daily dose of an ATC substance, e.g. 1 g parenteral ceftriaxone.
+ * `route` is the WHO administration code (O — oral, P — parenteral, ...).
+ */
+export interface DDDReferenceEntry {
+  atc: string;
+  ddd: Measure;
+  route?: string;
+}
+
+/** Consumption of one item in defined daily doses; without `dddCount` the reason says why */
+export interface DDDResult {
+  item: DrugItem;
+  ddd?: DDDReferenceEntry;
+  /** Ampoules, tablets, vials, etc. consumed */
+  doseUnits?: number;
+  dddCount?: number;
+  costPerDDD?: number;
+  dddPer100BedDays?: number;
+  reason?: string;
+}
+
+/** DDDs of all items with one ATC code */
+export interface DDDSubstanceSummary {
+  atc: string;
+  ddd: Measure;
+  dddCount: number;
+  amount: number;
+  costPerDDD: number;
+  dddPer100BedDays?: number;
+}
+
+/** A formulary committee decision; matched by name, or by code when no name is given */
+export interface VENDictionaryEntry {
+  code?: number;
+  name?: string;
+  ven: VENCategory;
+  rationale?: string;
+}
+
+/** A code listed with different names, which matching by code would treat as one drug */
+export interface CodeConflict {
+  code: number;
+  /** Each distinct name with the first file listing it */
+  names: { department: string; name: string }[];
+}
+
+/** A data row whose VEN category differs from the dictionary */
+export interface VENConflict {
+  line: number;
+  code: number;
+  name: string;
+  fileVEN: VENCategory;
+  dictionaryVEN: VENCategory;
+  rationale?: string;
+}
+
+/** An input file as described in the JSON report */
+export interface ReportInputFile {
+  file: string;
+  itemCount: number;
+  /** Data rows rejected with an error */
+  rejectedRows: number;
+  warnings: number;
+  /** Number format used for the file; absent when it had no data rows */
+  numberLocale?: NumberLocale;
+  /** Detected encoding and delimiter; absent for workbooks */
+  csvFormat?: CSVFormat;
+  totals?: TotalsReconciliation;
+}
+
+/**
+ * Machine-readable analysis result, described by schema/report-v1.schema.json.
+ * `version` changes its major part only when existing fields change.
+ */
+export interface JSONReport {
+  version: string;
+  generatedAt: string;
+  input: {
+    files: ReportInputFile[];
+    merged: boolean;
+    mergeKey?: MergeKey;
+  };
+  parameters: {
+    abc: ABCOptions;
+    level: AnalysisLevel;
+  };
+  totals: {
+    count: number;
+    amount: number;
+  };
+  items: AnalyzedItem[];
+  abcSummary: ABCSummary[];
+  venSummary: VENSummary[];
+  /** Cells of the ABC/VEN matrix, percentages of all items and the total spend */
+  matrix: Record<ABCCategory, Record<VENCategory, CategoryStats>>;
+  /** Cells of the ABC/VEN matrix, percentages within each ABC group (Table 3) */
+  venDistribution: Record<ABCCategory, Record<VENCategory, CategoryStats>>;
+  /** Items of the AN, BN and CN categories with suggested actions; since 1.1 */
+  problems: {
+    items: JSONProblemItem[];
+    categories: ProblemCategorySummary[];
+    /** Spend freed if every problem item were removed */
+    potentialSavings: { count: number; amount: number; percentAmount: number };
+  };
+}
+
+export interface JSONProblemItem {
+  category: ProblemCategory;
+  action: ProblemAction;
+  code: number;
+  name: string;
+  unit: string;
+  quantity: number;
+  amount: number;
+  percentOfTotal: number;
+  unitPrice?: number;
+}
+
+/** Cells of the ABC/VEN matrix holding non-essential (N) drugs */
+export type ProblemCategory = 'AN' | 'BN' | 'CN';
+
+/** Suggested action for an item of a problem category */
+export type ProblemAction = 'review' | 'optimize' | 'exclude';
+
+export interface ProblemItem {
+  item: AnalyzedItem;
+  category: ProblemCategory;
+  action: ProblemAction;
+  /** Price of one unit of `item.unit`; absent when the quantity is not positive */
+  unitPrice?: number;
+}
+
+/** Items of one problem category; `amount` is the saving if all were removed */
+export interface ProblemCategorySummary {
+  category: ProblemCategory;
+  action: ProblemAction;
+  count: number;
+  amount: number;
+  /** Share of the total spend */
+  percentAmount: number;
+}
@@ -0,0 +1,94 @@
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { DEFAULT_MERGE_KEY, MERGE_KEYS, findCodeConflicts } from './merge';
+import { parseFileWithDiagnostics } from './parser';
+import { formatCodeConflicts, formatVENInconsistencies, generateVENConsistencyReport, generateVENConsistencyTextReport } from './reporter';
+import { DepartmentItems, MergeKey } from './types';
+import { findVENInconsistencies } from './venConsistency';
+
+function printUsage(): void {
+  console.log('Использование: npx tsx src/venCheck.ts <файл1> <файл2> ... [параметры]');
+  console.log('');
+  console.log('Параметры:');
+  console.log(`  --match-key <ключ>   сопоставление позиций: ${MERGE_KEYS.join(', ')} (по умолчанию ${DEFAULT_MERGE_KEY})`);
+  console.log('  --limit <число>      число препаратов в консольном и текстовом отчёте (по умолчанию 10)');
+  console.log('  --name <имя>         имя выходных файлов (по умолчанию сводная)');
+  console.log('');
+  console.log('Пример:');
+  console.log('  npm run ven-check -- assets/реанимация.csv assets/педиатрия.csv');
+}
+
+function loadDepartment(inputPath: string): DepartmentItems {
+  console.log(`Входной файл: ${inputPath}`);
+  const { items, diagnostics } = parseFileWithDiagnostics(inputPath);
+
+  const errors = diagnostics.filter((d) => d.severity === 'error').length;
+  console.log(`  Загружено позиций: ${items.length}, отклонено строк: ${errors}`);
+  if (items.length === 0) {
+    throw new Error(`не удалось загрузить данные из файла ${inputPath}`);
+  }
+
+  return { department: path.basename(inputPath, path.extname(inputPath)), items };
+}
+
+function main(): number {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'match-key': { type: 'string' },
+      limit: { type: 'string' },
+      name: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    printUsage();
+    return 0;
+  }
+
+  if (positionals.length < 2) {
+    console.error('Ошибка: укажите не меньше двух входных файлов\n');
+    printUsage();
+    return 1;
+  }
+
+  const matchKey = (values['match-key'] ?? DEFAULT_MERGE_KEY) as MergeKey;
+  if (!MERGE_KEYS.includes(matchKey)) {
+    throw new Error(`Некорректное значение --match-key: ${values['match-key']}`);
+  }
+  const limit = values.limit !== undefined ? parseInt(values.limit, 10) : 10;
+  if (isNaN(limit) || limit < 0) {
+    throw new Error(`Некорректное значение --limit: ${values.limit}`);
+  }
+
+  const departments = positionals.map((input) => loadDepartment(path.resolve(input)));
+  if (matchKey === 'code') {
+    const conflicts = findCodeConflicts(departments);
+    if (conflicts.length > 0) {
+      console.log(`\n${formatCodeConflicts(conflicts, limit)}`);
+    }
+  }
+  const inconsistencies = findVENInconsistencies(departments, matchKey);
+
+  const outputDir = path.resolve(__dirname, '../output');
+  const outputName = values.name ?? 'сводная';
+  const csvOutputPath = path.join(outputDir, `${outputName}_ven_consistency.csv`);
+  const textOutputPath = path.join(outputDir, `${outputName}_ven_consistency.txt`);
+
+  generateVENConsistencyReport(inconsistencies, departments.map((d) => d.department), csvOutputPath);
+  generateVENConsistencyTextReport(inconsistencies, textOutputPath, limit);
+
+  console.log('');
+  console.log(formatVENInconsistencies(inconsistencies, limit));
+  console.log(`\nCSV-отчёт сохранён: ${csvOutputPath}`);
+  console.log(`Текстовый отчёт сохранён: ${textOutputPath}`);
+  return 0;
+}
+
+try {
+  process.exit(main());
+} catch (error) {
+  console.error(`Ошибка: ${(error as Error).message}`);
+  process.exit(1);
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { findVENInconsistencies } from './venConsistency';
+import { DepartmentItems, DrugItem } from './types';
+
+const item = (code: number, name: string, amount: number, ven: DrugItem['ven']): DrugItem => ({
+  code,
+  name,
+  unit: 'уп.',
+  quantity: 1,
+  amount,
+  ven,
+});
+
+describe('findVENInconsistencies', () => {
+  const departments: DepartmentItems[] = [
+    { department: 'реанимация', items: [item(1, 'Препарат А', 100, 'V'), item(2, 'Препарат Б', 50, 'E')] },
+    { department: 'педиатрия', items: [item(1, 'препарат  А', 300, 'E'), item(2, 'Препарат Б', 20, 'E')] },
+    { department: 'ОПН', items: [item(7, 'Препарат Б', 10, 'N'), item(1, 'Препарат А', 5, 'V')] },
+  ];
+
+  it('should list drugs classified differently, with amounts by category', () => {
+    const result = findVENInconsistencies(departments, 'code-name');
+
+    expect(result).toEqual([
+      {
+        code: 1,
+        name: 'Препарат А',
+        departments: [
+          { department: 'реанимация', ven: 'V', quantity: 1, amount: 100 },
+          { department: 'педиатрия', ven: 'E', quantity: 1, amount: 300 },
+          { department: 'ОПН', ven: 'V', quantity: 1, amount: 5 },
+        ],
+        amountByVEN: { V: 105, E: 300, N: 0 },
+        totalAmount: 405,
+      },
+    ]);
+  });
+
+  it('should group by name by default and order by total amount', () => {
+    const result = findVENInconsistencies(departments);
+
+    expect(result.map((inconsistency) => [inconsistency.name, inconsistency.totalAmount])).toEqual([
+      ['Препарат А', 405],
+      ['Препарат Б', 80],
+    ]);
+  });
+
+  it('should miss drugs listed under other codes with the code key', () => {
+    expect(findVENInconsistencies(departments, 'code').map((inconsistency) => inconsistency.name)).toEqual(['Препарат А']);
+  });
+
+  it('should keep both categories of a department listing a drug twice', () => {
+    const result = findVENInconsistencies([
+      { department: 'ОПН', items: [item(1, 'Препарат А', 10, 'V'), item(1, 'Препарат А', 20, 'N'), item(1, 'Препарат А', 5, 'V')] },
+    ]);
+
+    expect(result[0].departments).toEqual([
+      { department: 'ОПН', ven: 'V', quantity: 2, amount: 15 },
+      { department: 'ОПН', ven: 'N', quantity: 1, amount: 20 },
+    ]);
+  });
+
+  it('should return nothing when categories agree', () => {
+    expect(findVENInconsistencies([departments[0], { department: 'эндо', items: [item(2, 'Препарат Б', 1, 'E')] }])).toEqual([]);
+  });
+});
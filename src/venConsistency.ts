@@ -0,0 +1,61 @@
+import { DEFAULT_MERGE_KEY, itemKey } from './merge';
+import { DepartmentItems, DepartmentVEN, DrugItem, MergeKey, VENInconsistency } from './types';
+
+interface DrugGroup {
+  item: DrugItem;
+  departments: DepartmentVEN[];
+}
+
+/**
+ * Groups the items of department files by key and returns the drugs that
+ * are not classified with the same VEN category everywhere. Code and name
+ * come from the first department listing the drug.
+ *
+ * Inconsistencies are ordered by the largest total amount first.
+ */
+export function findVENInconsistencies(
+  departments: DepartmentItems[],
+  key: MergeKey = DEFAULT_MERGE_KEY
+): VENInconsistency[] {
+  const groups = new Map<string, DrugGroup>();
+
+  for (const { department, items } of departments) {
+    for (const item of items) {
+      const id = itemKey(item, key);
+      let group = groups.get(id);
+      if (!group) {
+        group = { item, departments: [] };
+        groups.set(id, group);
+      }
+
+      const entry = group.departments.find((d) => d.department === department && d.ven === item.ven);
+      if (entry) {
+        entry.quantity += item.quantity;
+        entry.amount += item.amount;
+      } else {
+        group.departments.push({ department, ven: item.ven, quantity: item.quantity, amount: item.amount });
+      }
+    }
+  }
+
+  const inconsistencies: VENInconsistency[] = [];
+  for (const { item, departments: entries } of groups.values()) {
+    if (new Set(entries.map((entry) => entry.ven)).size < 2) {
+      continue;
+    }
+
+    const amountByVEN = { V: 0, E: 0, N: 0 };
+    for (const entry of entries) {
+      amountByVEN[entry.ven] += entry.amount;
+    }
+    inconsistencies.push({
+      code: item.code,
+      name: item.name,
+      departments: entries,
+      amountByVEN,
+      totalAmount: amountByVEN.V + amountByVEN.E + amountByVEN.N,
+    });
+  }
+
+  return inconsistencies.sort((a, b) => b.totalAmount - a.totalAmount);
+}
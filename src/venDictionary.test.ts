@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { createVENLookup, loadVENDictionary } from './venDictionary';
+
+describe('loadVENDictionary', () => {
+  const testDir = path.join(__dirname, '../test-data-ven');
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  const createFile = (filename: string, content: string): string => {
+    const filePath = path.join(testDir, filename);
+    fs.writeFileSync(filePath, content, 'utf-8');
+    return filePath;
+  };
+
+  it('should read codes, names, categories and rationale from CSV', () => {
+    const filePath = createFile(
+      'dict.csv',
+      [
+        'Справочник VEN, утверждён ФК',
+        'Код;Наименование;VEN;Обоснование',
+        '8;"Азитромицин капс. 250мг.№6";e;Решение ФК от 01.03.2025',
+        ';Адреналин амп.;V;',
+        '',
+        '15;;N;',
+      ].join('\n')
+    );
+
+    expect(loadVENDictionary(filePath)).toEqual([
+      { code: 8, name: 'Азитромицин капс. 250мг.№6', ven: 'E', rationale: 'Решение ФК от 01.03.2025' },
+      { name: 'Адреналин амп.', ven: 'V' },
+      { code: 15, ven: 'N' },
+    ]);
+  });
+
+  it('should read the first sheet of a workbook', () => {
+    const filePath = path.join(testDir, 'dict.xlsx');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Товар', 'VEN'], ['Препарат А', 'N']]), 'VEN');
+    XLSX.writeFile(workbook, filePath);
+
+    expect(loadVENDictionary(filePath)).toEqual([{ name: 'Препарат А', ven: 'N' }]);
+  });
+
+  it('should report invalid entries with their line', () => {
+    const invalidVEN = createFile('a.csv', 'Наименование;VEN\nПрепарат А;V\nПрепарат Б;Ж\n');
+    const invalidCode = createFile('b.csv', 'Код;VEN\n1А;V\n');
+
+    expect(() => loadVENDictionary(invalidVEN)).toThrow('строка 3: недопустимая категория VEN "Ж"');
+    expect(() => loadVENDictionary(invalidCode)).toThrow('строка 2: нечисловой код "1А"');
+  });
+
+  it('should require VEN and code or name columns', () => {
+    expect(() => loadVENDictionary(createFile('a.csv', 'Наименование;Категория\nПрепарат А;V\n'))).toThrow('колонка "VEN"');
+    expect(() => loadVENDictionary(createFile('b.csv', 'VEN;Обоснование\nV;нет\n'))).toThrow('кода или наименования');
+    expect(() => loadVENDictionary(path.join(testDir, 'missing.csv'))).toThrow('не найден');
+  });
+});
+
+describe('createVENLookup', () => {
+  const lookup = createVENLookup([
+    { code: 8, name: 'Азитромицин капс. 250мг.№6', ven: 'E' },
+    { code: 15, ven: 'N' },
+  ]);
+
+  it('should match entries with a name by normalized name only', () => {
+    expect(lookup(99, 'АЗИТРОМИЦИН капс. 250мг. №6')?.ven).toBe('E');
+    expect(lookup(8, 'Другой препарат')).toBeUndefined();
+  });
+
+  it('should match code-only entries by code', () => {
+    expect(lookup(15, 'Любое наименование')?.ven).toBe('N');
+    expect(lookup(undefined, 'Любое наименование')).toBeUndefined();
+  });
+});
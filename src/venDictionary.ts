@@ -0,0 +1,64 @@
+import { normalizeHeader } from './columns';
+import { createDictionaryLookup, readDictionaryTable } from './dictionaryFile';
+import { VENCategory, VENDictionaryEntry } from './types';
+
+const RATIONALE_HEADERS = ['обоснование', 'комментарий', 'примечание', 'rationale'];
+
+export type VENLookup = (code: number | undefined, name: string) => VENDictionaryEntry | undefined;
+
+/**
+ * Loads the hospital VEN dictionary from CSV or a workbook's first sheet.
+ * The header row needs a "VEN" column and a code or name column
+ * ("Код", "Наименование", ...); an "Обоснование" column is optional.
+ */
+export function loadVENDictionary(filePath: string): VENDictionaryEntry[] {
+  const { rows, headerRow, column, fieldColumn } = readDictionaryTable(filePath, 'ven', 'Справочник VEN');
+  const venCol = fieldColumn('ven');
+  const codeCol = fieldColumn('code');
+  const nameCol = fieldColumn('name');
+  const rationaleCol = column((cell) => RATIONALE_HEADERS.includes(normalizeHeader(cell)));
+  if (codeCol === -1 && nameCol === -1) {
+    throw new Error(`Справочник VEN: нет колонки кода или наименования: ${filePath}`);
+  }
+
+  const entries: VENDictionaryEntry[] = [];
+  for (let i = headerRow + 1; i < rows.length; i++) {
+    const cell = (col: number): string => (col === -1 ? '' : (rows[i][col] ?? '').trim());
+    const codeText = cell(codeCol);
+    const name = cell(nameCol);
+    const ven = cell(venCol).toUpperCase();
+    if (!codeText && !name && !ven) {
+      continue;
+    }
+
+    const context = `Справочник VEN, строка ${i + 1}`;
+    if (!['V', 'E', 'N'].includes(ven)) {
+      throw new Error(`${context}: недопустимая категория VEN "${cell(venCol)}"`);
+    }
+    if (codeText && !/^\d+$/.test(codeText)) {
+      throw new Error(`${context}: нечисловой код "${codeText}"`);
+    }
+    if (!codeText && !name) {
+      throw new Error(`${context}: не указаны код и наименование`);
+    }
+
+    const entry: VENDictionaryEntry = { ven: ven as VENCategory };
+    if (codeText) {
+      entry.code = parseInt(codeText, 10);
+    }
+    if (name) {
+      entry.name = name;
+    }
+    if (cell(rationaleCol)) {
+      entry.rationale = cell(rationaleCol);
+    }
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/** Matches items to dictionary entries by name, or by code for entries without a name */
+export function createVENLookup(entries: VENDictionaryEntry[]): VENLookup {
+  return createDictionaryLookup(entries);
+}
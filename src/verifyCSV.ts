@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { readCSVRecords, readFileChunks } from './csvReader';
 
 interface ExpectedData {
   file: string;
@@ -20,33 +21,6 @@ const expectedData: ExpectedData[] = [
   { file: 'эндо.csv', rows: 161, v: 105, e: 48, n: 8 },
 ];
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-
-  result.push(current);
-  return result;
-}
-
 function verifyCSV(assetsDir: string, expected: ExpectedData): { passed: boolean; details: string } {
   const filePath = path.join(assetsDir, expected.file);
 
@@ -54,22 +28,19 @@ function verifyCSV(assetsDir: string, expected: ExpectedData): { passed: boolean
     return { passed: false, details: 'File not found' };
   }
 
-  const content = fs.readFileSync(filePath, 'utf-8');
-  const lines = content.split(/\r?\n/);
-
   let rowCount = 0;
   let vCount = 0;
   let eCount = 0;
   let nCount = 0;
 
-  // Skip header lines (1-4), data starts at line 5 (index 4)
-  for (let i = 4; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line || line.startsWith(',,Всего:') || line.toLowerCase().includes('всего')) {
+  // Skip header lines (1-4), data starts at line 5
+  for (const record of readCSVRecords(readFileChunks(filePath))) {
+    const line = record.raw.trim();
+    if (record.line < 5 || !line || line.startsWith(',,Всего:') || line.toLowerCase().includes('всего')) {
       continue;
     }
 
-    const parsed = parseCSVLine(line);
+    const parsed = record.cells;
     if (parsed.length < 6) {
       continue;
     }
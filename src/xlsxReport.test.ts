@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { analyzeABC, getABCSummary, getVENDistributionByABC, getVENSummary, reconcileTotals, resolveABCOptions } from './analyzer';
+import { ReportDetails } from './reporter';
+import { createReportWorkbook, generateXLSXReport } from './xlsxReport';
+import { DrugItem } from './types';
+
+const items: DrugItem[] = [
+  { code: 1, name: 'Препарат А', unit: 'уп.', quantity: 1, amount: 7000, ven: 'V' },
+  { code: 2, name: 'Препарат Б', unit: 'уп.', quantity: 2, amount: 1500, ven: 'N' },
+  { code: 3, name: 'Препарат В', unit: 'фл.', quantity: 3, amount: 1000, ven: 'E' },
+  { code: 4, name: 'Препарат Г', unit: 'уп.', quantity: 4, amount: 500, ven: 'N' },
+];
+
+const analyzed = analyzeABC(items);
+const createWorkbook = (details?: ReportDetails): XLSX.WorkBook =>
+  createReportWorkbook(analyzed, getABCSummary(analyzed), getVENSummary(analyzed), getVENDistributionByABC(analyzed), details);
+const rows = (sheet: XLSX.WorkSheet): unknown[][] => XLSX.utils.sheet_to_json(sheet, { header: 1 });
+
+describe('createReportWorkbook', () => {
+  it('should have a sheet for each table', () => {
+    expect(createWorkbook().SheetNames).toEqual(['Параметры', 'Таблица 1 ABC', 'Таблица 2 VEN', 'Таблица 3 ABC-VEN', 'Таблица 4 ABC-VEN', 'Позиции', 'Проблемные']);
+  });
+
+  it('should describe the analysis parameters and the totals check', () => {
+    const sheet = createWorkbook({
+      abcOptions: resolveABCOptions({ thresholds: { a: 75, b: 95 }, strategy: 'nearest' }),
+      totals: reconcileTotals(items, { line: 6, quantity: 10, amount: 10100 }),
+      innLevel: { itemCount: 6 },
+    }).Sheets['Параметры'];
+
+    expect(rows(sheet)).toEqual([
+      ['Параметр', 'Значение'],
+      ['Всего позиций', 4],
+      ['Общая сумма, руб.', 10000],
+      ['Уровень анализа', 'МНН (4 МНН из 6 торговых позиций)'],
+      ['Граница группы A, %', 75],
+      ['Граница группы B, %', 95],
+      ['Отнесение позиции на границе', 'к ближайшей границе'],
+      ['Контроль итога (строка 6)', 'расхождение'],
+      ['Количество: заявлено', 10],
+      ['Количество: загружено', 10],
+      ['Количество: расхождение', 0],
+      ['Сумма: заявлено', 10100],
+      ['Сумма: загружено', 10000],
+      ['Сумма: расхождение', -100],
+    ]);
+    expect(sheet['B3'].z).toBe('#,##0.00 "₽"');
+    expect(sheet['B2'].z).toBeUndefined();
+  });
+
+  it('should describe item-level analysis without optional details', () => {
+    expect(rows(createWorkbook().Sheets['Параметры']).slice(1)).toEqual([
+      ['Всего позиций', 4],
+      ['Общая сумма, руб.', 10000],
+      ['Уровень анализа', 'торговые позиции'],
+    ]);
+  });
+
+  it('should store percentages as fractions with rouble and percent formats', () => {
+    const sheet = createWorkbook().Sheets['Таблица 1 ABC'];
+
+    expect(rows(sheet)[1]).toEqual(['A', 2, 0.5, 8500, 0.85]);
+    expect(rows(sheet)[4]).toEqual(['Итого', 4, 1, 10000, 1]);
+    expect(sheet['C2'].z).toBe('0.00%');
+    expect(sheet['D2'].z).toBe('#,##0.00 "₽"');
+    expect(sheet['A2'].z).toBeUndefined();
+  });
+
+  it('should list all items and the matrix cells with totals', () => {
+    const workbook = createWorkbook();
+
+    expect(rows(workbook.Sheets['Позиции'])).toHaveLength(items.length + 1);
+    expect(rows(workbook.Sheets['Позиции'])[2]).toEqual([2, 'Препарат Б', 'уп.', 2, 1500, 0.15, 0.85, 'A', 'N']);
+
+    const matrix = rows(workbook.Sheets['Таблица 4 ABC-VEN']);
+    expect(matrix.map((row) => row[0])).toEqual(['Группа', 'A', 'B', 'C', 'Итого']);
+    expect(matrix[0].slice(9, 13)).toEqual(['N: число МНН', 'N: % МНН', 'N: затраты, руб.', 'N: % затрат']);
+    expect(matrix[1]).toEqual(['A', 1, 0.25, 7000, 0.7, 0, 0, 0, 0, 1, 0.25, 1500, 0.15, 2, 0.5, 8500, 0.85]);
+    expect(matrix[4].slice(13)).toEqual([4, 1, 10000, 1]);
+  });
+
+  it('should list items of the problem categories with actions and the potential saving', () => {
+    const problems = rows(createWorkbook().Sheets['Проблемные']);
+
+    expect(problems[1]).toEqual([
+      'AN',
+      'пересмотр',
+      2,
+      'Препарат Б',
+      'уп.',
+      2,
+      1500,
+      0.15,
+      750,
+      'Высокие затраты на второстепенные препараты: пересмотреть целесообразность закупок',
+    ]);
+    expect(problems[2].slice(0, 4)).toEqual(['CN', 'кандидат на исключение', 4, 'Препарат Г']);
+    expect(problems[2][9]).toContain('исключение из формуляра');
+    expect(problems.slice(3).map((row) => [row[0], row[1], row[3], row[6]])).toEqual([
+      ['Итого AN', 'пересмотр', 'Позиций: 1', 1500],
+      ['Итого BN', 'оптимизация', 'Позиций: 0', 0],
+      ['Итого CN', 'кандидат на исключение', 'Позиций: 1', 500],
+      ['Итого', '', 'Позиций: 2', 2000],
+    ]);
+  });
+});
+
+describe('generateXLSXReport', () => {
+  const testDir = path.join(__dirname, '../test-output-xlsx');
+  const testFile = path.join(testDir, 'test_report.xlsx');
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true });
+    }
+  });
+
+  it('should write a workbook that reads back with its formats', () => {
+    generateXLSXReport(analyzed, getABCSummary(analyzed), getVENSummary(analyzed), getVENDistributionByABC(analyzed), testFile);
+
+    const workbook = XLSX.readFile(testFile, { cellNF: true });
+    expect(workbook.SheetNames).toHaveLength(7);
+    expect(workbook.Sheets['Позиции']['E2'].z).toBe('#,##0.00 "₽"');
+  });
+});
@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { getABCVENMatrix, sumMatrixCells } from './analyzer';
+import { PROBLEM_ACTIONS, PROBLEM_ACTION_LABELS, getProblemItems, summarizeProblems } from './problems';
+import { ReportDetails, STRATEGY_DESCRIPTIONS, TOTALS_FIELD_NAMES } from './reporter';
+import { ABCCategory, ABCSummary, AnalyzedItem, CategoryStats, VENCategory, VENSummary } from './types';
+
+const ABC_CATEGORIES: ABCCategory[] = ['A', 'B', 'C'];
+const VEN_CATEGORIES: VENCategory[] = ['V', 'E', 'N'];
+
+const RUBLES = '#,##0.00 "₽"';
+const PERCENT = '0.00%';
+const QUANTITY = '#,##0.##';
+
+type Cell = string | number;
+
+interface SheetColumn {
+  header: string;
+  width: number;
+  /** Number format of the column's numeric cells */
+  format?: string;
+}
+
+/**
+ * Builds a sheet from a header and rows. Percentages are passed as
+ * percent values (80 for 80 %) and stored as fractions, so Excel shows
+ * them with its percent format and sums them correctly.
+ */
+function createSheet(columns: SheetColumn[], rows: Cell[][]): XLSX.WorkSheet {
+  const data = rows.map((row) =>
+    row.map((value, index) => (columns[index].format === PERCENT && typeof value === 'number' ? value / 100 : value))
+  );
+  const sheet = XLSX.utils.aoa_to_sheet([columns.map((column) => column.header), ...data]);
+
+  columns.forEach((column, col) => {
+    if (!column.format) {
+      return;
+    }
+    for (let row = 1; row <= data.length; row++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r: row, c: col })] as XLSX.CellObject | undefined;
+      if (cell?.t === 'n') {
+        cell.z = column.format;
+      }
+    }
+  });
+  sheet['!cols'] = columns.map((column) => ({ wch: column.width }));
+
+  return sheet;
+}
+
+function summarySheet(label: string, groups: (CategoryStats & { category: string })[], totalCount: number, totalAmount: number): XLSX.WorkSheet {
+  return createSheet(
+    [
+      { header: label, width: 10 },
+      { header: 'Число МНН', width: 11 },
+      { header: '% МНН', width: 9, format: PERCENT },
+      { header: 'Затраты, руб.', width: 18, format: RUBLES },
+      { header: '% затрат', width: 10, format: PERCENT },
+    ],
+    [
+      ...groups.map((group) => [group.category, group.count, group.percentCount, group.amount, group.percentAmount]),
+      ['Итого', totalCount, 100, totalAmount, 100],
+    ]
+  );
+}
+
+/**
+ * Parameter/value rows describing the analysis; a row's format applies to
+ * its numeric value only.
+ */
+function parametersSheet(
+  items: AnalyzedItem[],
+  totalAmount: number,
+  details: ReportDetails
+): XLSX.WorkSheet {
+  const rows: [string, Cell, string?][] = [
+    ['Всего позиций', items.length],
+    ['Общая сумма, руб.', totalAmount, RUBLES],
+    [
+      'Уровень анализа',
+      details.innLevel ? `МНН (${items.length} МНН из ${details.innLevel.itemCount} торговых позиций)` : 'торговые позиции',
+    ],
+  ];
+
+  if (details.abcOptions) {
+    const { thresholds, strategy } = details.abcOptions;
+    rows.push(['Граница группы A, %', thresholds.a]);
+    rows.push(['Граница группы B, %', thresholds.b]);
+    rows.push(['Отнесение позиции на границе', STRATEGY_DESCRIPTIONS[strategy]]);
+  }
+
+  if (details.totals) {
+    const { line, matches, checks } = details.totals;
+    rows.push([`Контроль итога (строка ${line})`, matches ? 'совпадает' : 'расхождение']);
+    for (const check of checks) {
+      const format = check.field === 'amount' ? RUBLES : QUANTITY;
+      const name = TOTALS_FIELD_NAMES[check.field];
+      rows.push([`${name}: заявлено`, check.declared, format]);
+      rows.push([`${name}: загружено`, check.parsed, format]);
+      rows.push([`${name}: расхождение`, check.difference, format]);
+    }
+  }
+
+  const sheet = createSheet(
+    [
+      { header: 'Параметр', width: 32 },
+      { header: 'Значение', width: 40 },
+    ],
+    rows.map(([label, value]) => [label, value])
+  );
+  rows.forEach(([, , format], index) => {
+    const cell = sheet[XLSX.utils.encode_cell({ r: index + 1, c: 1 })] as XLSX.CellObject | undefined;
+    if (format && cell?.t === 'n') {
+      cell.z = format;
+    }
+  });
+
+  return sheet;
+}
+
+/**
+ * Builds the report workbook: the analysis parameters, Tables 1–4, the items with their ABC/VEN
+ * categories and the items of the problem categories AN, BN and CN with
+ * their suggested actions and the saving if they were removed.
+ */
+export function createReportWorkbook(
+  items: AnalyzedItem[],
+  summary: ABCSummary[],
+  venSummary: VENSummary[],
+  venDistribution: Record<ABCCategory, Record<VENCategory, CategoryStats>>,
+  details: ReportDetails = {}
+): XLSX.WorkBook {
+  const totalAmount = items.reduce((sum, item) => sum + item.amount, 0);
+  const totalCount = items.length;
+  const matrix = getABCVENMatrix(items);
+  const withATC = items.some((item) => item.atc);
+  const workbook = XLSX.utils.book_new();
+
+  XLSX.utils.book_append_sheet(workbook, parametersSheet(items, totalAmount, details), 'Параметры');
+  XLSX.utils.book_append_sheet(workbook, summarySheet('Группа', summary, totalCount, totalAmount), 'Таблица 1 ABC');
+  XLSX.utils.book_append_sheet(workbook, summarySheet('Категория', venSummary, totalCount, totalAmount), 'Таблица 2 VEN');
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    createSheet(
+      [
+        { header: 'Группа', width: 10 },
+        ...VEN_CATEGORIES.map((ven) => ({ header: `${ven}, % затрат группы`, width: 20, format: PERCENT })),
+      ],
+      ABC_CATEGORIES.map((abc) => [abc, ...VEN_CATEGORIES.map((ven) => venDistribution[abc][ven].percentAmount)])
+    ),
+    'Таблица 3 ABC-VEN'
+  );
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    createSheet(
+      [
+        { header: 'Группа', width: 10 },
+        ...[...VEN_CATEGORIES, 'Итого'].flatMap((ven) => [
+          { header: `${ven}: число МНН`, width: 11 },
+          { header: `${ven}: % МНН`, width: 10, format: PERCENT },
+          { header: `${ven}: затраты, руб.`, width: 18, format: RUBLES },
+          { header: `${ven}: % затрат`, width: 10, format: PERCENT },
+        ]),
+      ],
+      [...ABC_CATEGORIES, undefined].map((abc) => [
+        abc ?? 'Итого',
+        ...[...VEN_CATEGORIES, undefined].flatMap((ven) => {
+          const cell = sumMatrixCells(matrix, abc, ven);
+          return [cell.count, cell.percentCount, cell.amount, cell.percentAmount];
+        }),
+      ])
+    ),
+    'Таблица 4 ABC-VEN'
+  );
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    createSheet(
+      [
+        { header: 'Код', width: 8 },
+        { header: 'Товар', width: 50 },
+        { header: 'Ед.', width: 8 },
+        { header: 'Кол-во', width: 10, format: QUANTITY },
+        { header: 'Сумма', width: 16, format: RUBLES },
+        { header: '% от общей', width: 11, format: PERCENT },
+        { header: 'Накопл. %', width: 11, format: PERCENT },
+        { header: 'ABC', width: 6 },
+        { header: 'VEN', width: 6 },
+        ...(withATC ? [{ header: 'ATC', width: 10 }] : []),
+      ],
+      items.map((item) => [
+        item.code,
+        item.name,
+        item.unit,
+        item.quantity,
+        item.amount,
+        item.percentOfTotal,
+        item.cumulativePercent,
+        item.abc,
+        item.ven,
+        ...(withATC ? [item.atc ?? ''] : []),
+      ])
+    ),
+    'Позиции'
+  );
+
+  const problems = getProblemItems(items);
+  const problemSummaries = summarizeProblems(problems);
+  XLSX.utils.book_append_sheet(
+    workbook,
+    createSheet(
+      [
+        { header: 'Категория', width: 10 },
+        { header: 'Действие', width: 24 },
+        { header: 'Код', width: 8 },
+        { header: 'Товар', width: 50 },
+        { header: 'Ед.', width: 8 },
+        { header: 'Кол-во', width: 10, format: QUANTITY },
+        { header: 'Сумма', width: 16, format: RUBLES },
+        { header: '% от общей', width: 11, format: PERCENT },
+        { header: 'Цена за ед.', width: 14, format: RUBLES },
+        { header: 'Рекомендация', width: 70 },
+      ],
+      [
+        ...problems.map(({ item, category, action, unitPrice }) => [
+          category,
+          PROBLEM_ACTION_LABELS[action],
+          item.code,
+          item.name,
+          item.unit,
+          item.quantity,
+          item.amount,
+          item.percentOfTotal,
+          unitPrice ?? '',
+          PROBLEM_ACTIONS[category].recommendation,
+        ]),
+        ...problemSummaries.map((summary) => [
+          `Итого ${summary.category}`,
+          PROBLEM_ACTION_LABELS[summary.action],
+          '',
+          `Позиций: ${summary.count}`,
+          '',
+          '',
+          summary.amount,
+          summary.percentAmount,
+          '',
+          '',
+        ]),
+        [
+          'Итого',
+          '',
+          '',
+          `Позиций: ${problems.length}`,
+          '',
+          '',
+          problemSummaries.reduce((sum, summary) => sum + summary.amount, 0),
+          problemSummaries.reduce((sum, summary) => sum + summary.percentAmount, 0),
+          '',
+          'Потенциальная экономия при исключении всех позиций',
+        ],
+      ]
+    ),
+    'Проблемные'
+  );
+
+  return workbook;
+}
+
+export function generateXLSXReport(
+  items: AnalyzedItem[],
+  summary: ABCSummary[],
+  venSummary: VENSummary[],
+  venDistribution: Record<ABCCategory, Record<VENCategory, CategoryStats>>,
+  outputPath: string,
+  details: ReportDetails = {}
+): void {
+  const workbook = createReportWorkbook(items, summary, venSummary, venDistribution, details);
+
+  const dir = path.dirname(outputPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  XLSX.writeFile(workbook, outputPath);
+}